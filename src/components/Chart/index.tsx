@@ -21,6 +21,7 @@ import {
   ScatterController,
   LineController,
   BarController,
+  Filler,
   LegendItem
 } from 'chart.js';
 import type { DeepPartial } from 'chart.js/types/utils';
@@ -39,9 +40,19 @@ ChartJS.register(
   Legend,
   ScatterController,
   LineController,
-  BarController
+  BarController,
+  Filler
 );
 
+// Line colours for individual NWP models, in member order
+const MEMBER_COLORS = [
+  'rgb(110, 231, 183)',
+  'rgb(253, 186, 116)',
+  'rgb(125, 211, 252)',
+  'rgb(249, 168, 212)',
+  'rgb(196, 181, 253)'
+];
+
 type ChartDataPoint = {
   timestamp: number;
   historical?: number;
@@ -54,6 +65,16 @@ type ChartDataPoint = {
   reference?: number;
   regression?: number;
   type?: 'scatter' | 'reference' | 'regression';
+  ensembleMean?: number;
+  ensembleLow?: number;
+  ensembleHigh?: number;
+  // Bias-corrected (MOS) forecast
+  corrected?: number;
+  // p10-p90 band around the AI prediction
+  predictionLow?: number;
+  predictionHigh?: number;
+  // Individual ensemble members keyed by model label
+  members?: { [label: string]: number | undefined };
 };
 
 interface ChartProps {
@@ -67,10 +88,18 @@ interface ChartProps {
   isTimeSeries?: boolean;
   isBarChart?: boolean;
   showXAxis?: boolean;
+  ensembleLabel?: string;
+  ensembleBandLabel?: string;
+  correctedLabel?: string;
+  predictionBandLabel?: string;
+  // Tooltip formatting for the y value; defaults to two decimals
+  formatValue?: (value: number) => string;
 }
 
 type ChartTypes = 'line' | 'bar' | 'scatter';
 
+const formatTwoDecimals = (value: number) => value.toFixed(2);
+
 export function Chart({
   data,
   yLabel,
@@ -81,7 +110,12 @@ export function Chart({
   id,
   isTimeSeries = true,
   isBarChart = false,
-  showXAxis = true
+  showXAxis = true,
+  ensembleLabel = 'Ensemble Mean',
+  ensembleBandLabel = 'Model Spread',
+  correctedLabel = 'Corrected Forecast',
+  predictionBandLabel = 'AI 10-90% Range',
+  formatValue = formatTwoDecimals
 }: ChartProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const chartRef = useRef<ChartJS | null>(null);
@@ -153,6 +187,121 @@ export function Chart({
       });
     }
 
+    if (data.some((d) => d.predictionLow !== undefined && d.predictionHigh !== undefined)) {
+      const bandPoints = data.filter(
+        (d): d is ChartDataPoint & { predictionLow: number; predictionHigh: number } =>
+          d.predictionLow !== undefined && d.predictionHigh !== undefined
+      );
+      // Lower edge first; the upper edge fills down to it
+      datasets.push({
+        type: 'line' as const,
+        label: '',
+        data: bandPoints.map((d) => ({ x: d.timestamp, y: d.predictionLow })),
+        borderColor: 'transparent',
+        backgroundColor: 'transparent',
+        pointRadius: 0,
+        pointHoverRadius: 0,
+        tension: 0.4,
+        fill: false
+      });
+      datasets.push({
+        type: 'line' as const,
+        label: predictionBandLabel,
+        data: bandPoints.map((d) => ({ x: d.timestamp, y: d.predictionHigh })),
+        borderColor: 'transparent',
+        backgroundColor: 'rgba(240, 171, 252, 0.15)',
+        pointRadius: 0,
+        pointHoverRadius: 0,
+        tension: 0.4,
+        fill: '-1'
+      });
+    }
+
+    if (data.some((d) => d.corrected !== undefined)) {
+      datasets.push({
+        type: 'line' as const,
+        label: correctedLabel,
+        data: data
+          .filter((d): d is ChartDataPoint & { corrected: number } => d.corrected !== undefined)
+          .map((d) => ({ x: d.timestamp, y: d.corrected })),
+        borderColor: 'rgb(45, 212, 191)',
+        backgroundColor: 'rgba(45, 212, 191, 0.1)',
+        borderWidth: 2,
+        pointRadius: 0,
+        pointHoverRadius: 4,
+        tension: 0.4,
+        fill: false
+      });
+    }
+
+    const memberLabels = Array.from(
+      new Set(data.flatMap((d) => Object.keys(d.members ?? {})))
+    );
+    memberLabels.forEach((label, index) => {
+      datasets.push({
+        type: 'line' as const,
+        label,
+        data: data
+          .filter((d) => d.members?.[label] !== undefined)
+          .map((d) => ({ x: d.timestamp, y: d.members![label]! })),
+        borderColor: MEMBER_COLORS[index % MEMBER_COLORS.length],
+        backgroundColor: 'transparent',
+        borderWidth: 1,
+        borderDash: [4, 3],
+        pointRadius: 0,
+        pointHoverRadius: 3,
+        tension: 0.4,
+        fill: false
+      });
+    });
+
+    if (data.some((d) => d.ensembleLow !== undefined && d.ensembleHigh !== undefined)) {
+      const bandPoints = data.filter(
+        (d): d is ChartDataPoint & { ensembleLow: number; ensembleHigh: number } =>
+          d.ensembleLow !== undefined && d.ensembleHigh !== undefined
+      );
+      // Lower edge first; the upper edge fills down to it
+      datasets.push({
+        type: 'line' as const,
+        label: '',
+        data: bandPoints.map((d) => ({ x: d.timestamp, y: d.ensembleLow })),
+        borderColor: 'transparent',
+        backgroundColor: 'transparent',
+        pointRadius: 0,
+        pointHoverRadius: 0,
+        tension: 0.4,
+        fill: false
+      });
+      datasets.push({
+        type: 'line' as const,
+        label: ensembleBandLabel,
+        data: bandPoints.map((d) => ({ x: d.timestamp, y: d.ensembleHigh })),
+        borderColor: 'transparent',
+        backgroundColor: 'rgba(251, 191, 36, 0.15)',
+        pointRadius: 0,
+        pointHoverRadius: 0,
+        tension: 0.4,
+        fill: '-1'
+      });
+    }
+
+    if (data.some((d) => d.ensembleMean !== undefined)) {
+      datasets.push({
+        type: 'line' as const,
+        label: ensembleLabel,
+        data: data
+          .filter((d): d is ChartDataPoint & { ensembleMean: number } => d.ensembleMean !== undefined)
+          .map((d) => ({ x: d.timestamp, y: d.ensembleMean })),
+        borderColor: 'rgb(251, 191, 36)',
+        backgroundColor: 'rgba(251, 191, 36, 0.1)',
+        borderWidth: 2,
+        pointRadius: 0,
+        pointHoverRadius: 4,
+        tension: 0.4,
+        fill: false
+      });
+    }
+
     if (data.some((d) => d.training !== undefined)) {
       datasets.push({
         type: 'line' as const,
@@ -319,7 +468,7 @@ export function Chart({
             color: 'rgb(226, 232, 240)',
             filter: (item: LegendItem) => {
               const dataset = datasets[item.datasetIndex];
-              return dataset.data.length > 0;
+              return dataset.data.length > 0 && !!dataset.label;
             }
           }
         },
@@ -338,6 +487,8 @@ export function Chart({
           padding: 12,
           cornerRadius: 8,
           displayColors: true,
+          // Skip unlabelled helper datasets such as the lower edge of a band
+          filter: (item: TooltipItem<ChartTypes>) => !!item.dataset.label,
           callbacks: {
             title: (items: TooltipItem<ChartTypes>[]) => {
               if (!items.length) return '';
@@ -350,7 +501,7 @@ export function Chart({
             label: (item: TooltipItem<ChartTypes>) => {
               const dataset = item.dataset;
               const value = item.parsed.y;
-              return `${dataset.label}: ${value.toFixed(2)}`;
+              return `${dataset.label}: ${formatValue(value)}`;
             }
           }
         }
@@ -385,7 +536,12 @@ export function Chart({
     id,
     isTimeSeries,
     isBarChart,
-    showXAxis
+    showXAxis,
+    ensembleLabel,
+    ensembleBandLabel,
+    correctedLabel,
+    predictionBandLabel,
+    formatValue
   ]);
 
   return (
@@ -0,0 +1,121 @@
+import type { DataQualityReport, QualityField } from '../../lib/dataQuality';
+
+interface DataQualityProps {
+  report: DataQualityReport;
+}
+
+const FIELD_LABELS: { [field in QualityField]: string } = {
+  windSpeed: 'Wind speed',
+  windGusts: 'Wind gusts',
+  windDirection: 'Wind direction',
+  waveHeight: 'Wave height',
+  wavePeriod: 'Wave period',
+  swellDirection: 'Swell direction',
+  temperature: 'Temperature',
+  precipitation: 'Rain',
+  pressure: 'Pressure',
+  cloudCover: 'Cloud cover',
+  windSpeed80m: '80m wind speed',
+  windDirection80m: '80m wind direction'
+};
+
+// Only the most recent flags are listed; the counts cover all of them
+const MAX_LISTED = 8;
+
+const formatTime = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-GB', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    hour: '2-digit',
+    minute: '2-digit',
+    hour12: false
+  });
+
+export function DataQuality({ report }: DataQualityProps) {
+  const unfilledGaps = report.gaps.filter((g) => !g.interpolated);
+  const completenessPct =
+    report.expectedHours > 0 ? (report.receivedHours / report.expectedHours) * 100 : 0;
+  // Fields the source doesn't provide at all aren't a quality problem; partial ones are
+  const lowCompleteness = (Object.keys(report.completeness) as QualityField[]).filter((field) => {
+    const completeness = report.completeness[field] ?? 0;
+    return completeness > 0 && completeness < 0.99;
+  });
+
+  return (
+    <div className="bg-slate-900/40 backdrop-blur-xl rounded-2xl border border-slate-800/50">
+      <div className="p-5 border-b border-slate-800/50">
+        <h2 className="text-xl font-semibold text-slate-100 tracking-tight">Data Quality</h2>
+      </div>
+
+      <div className="p-5 space-y-5">
+        <div className="grid gap-4 grid-cols-2 md:grid-cols-4">
+          <div className="bg-slate-900 p-4 rounded-xl border border-slate-700">
+            <span className="text-sm font-medium text-blue-100">Hours received</span>
+            <div className="font-mono text-2xl text-white">{completenessPct.toFixed(1)}%</div>
+            <p className="text-xs text-gray-400 mt-1">
+              {report.receivedHours} of {report.expectedHours} expected
+            </p>
+          </div>
+          <div className="bg-slate-900 p-4 rounded-xl border border-slate-700">
+            <span className="text-sm font-medium text-indigo-100">Interpolated</span>
+            <div className="font-mono text-2xl text-white">{report.interpolatedHours}</div>
+            <p className="text-xs text-gray-400 mt-1">
+              hours, plus {report.interpolatedValues} single values
+            </p>
+          </div>
+          <div className="bg-slate-900 p-4 rounded-xl border border-slate-700">
+            <span className="text-sm font-medium text-violet-100">Unfilled gaps</span>
+            <div className="font-mono text-2xl text-white">{unfilledGaps.length}</div>
+            <p className="text-xs text-gray-400 mt-1">excluded from training windows</p>
+          </div>
+          <div className="bg-slate-900 p-4 rounded-xl border border-slate-700">
+            <span className="text-sm font-medium text-rose-100">Flagged values</span>
+            <div className="font-mono text-2xl text-white">{report.outliers.length}</div>
+            <p className="text-xs text-gray-400 mt-1">spikes or out of range</p>
+          </div>
+        </div>
+
+        {unfilledGaps.length > 0 && (
+          <div className="text-sm text-slate-300">
+            <h3 className="font-medium text-slate-200 mb-2">Gaps</h3>
+            <ul className="space-y-1">
+              {unfilledGaps.slice(-MAX_LISTED).map((gap) => (
+                <li key={gap.start} className="tabular-nums">
+                  {formatTime(gap.start)} – {formatTime(gap.end)} ({gap.hours}h)
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {report.outliers.length > 0 && (
+          <div className="text-sm text-slate-300">
+            <h3 className="font-medium text-slate-200 mb-2">Flagged values</h3>
+            <ul className="space-y-1">
+              {report.outliers.slice(-MAX_LISTED).map((flag) => (
+                <li key={`${flag.field}-${flag.timestamp}`} className="tabular-nums">
+                  {formatTime(flag.timestamp)} · {FIELD_LABELS[flag.field]}{' '}
+                  {flag.value.toFixed(1)}{' '}
+                  <span className="text-slate-500">
+                    ({flag.reason === 'spike' ? 'spike' : 'out of range'})
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+
+        {lowCompleteness.length > 0 && (
+          <div className="flex flex-wrap gap-2 text-xs">
+            {lowCompleteness.map((field) => (
+              <span key={field} className="px-2 py-1 rounded bg-slate-800/60 text-slate-300">
+                {FIELD_LABELS[field]}: {((report.completeness[field] ?? 0) * 100).toFixed(0)}%
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
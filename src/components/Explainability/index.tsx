@@ -0,0 +1,117 @@
+import { DEFAULT_UNITS, convertWind, windUnitLabel } from '../../lib/units';
+import type { UnitPreferences } from '../../lib/units';
+import type { InputFeature, InputImportance } from '../WeatherPredictor/types';
+
+interface ExplainabilityProps {
+  importance: InputImportance;
+  units?: UnitPreferences;
+}
+
+const FEATURE_LABELS: { [feature in InputFeature]: string } = {
+  windSpeed: 'Wind speed',
+  windGusts: 'Wind gusts',
+  windDirection: 'Wind direction',
+  waveHeight: 'Wave height',
+  wavePeriod: 'Wave period',
+  swellDirection: 'Swell direction',
+  temperature: 'Temperature',
+  precipitation: 'Rain',
+  pressure: 'Pressure',
+  cloudCover: 'Cloud cover',
+  windSpeed80m: '80m wind speed',
+  windDirection80m: '80m wind direction',
+  pressureTendency: 'Pressure tendency',
+  tideHeight: 'Tide height',
+  hourOfDay: 'Hour of day',
+  dayOfYear: 'Day of year',
+  sunElevation: 'Sun elevation'
+};
+
+export function Explainability({ importance, units = DEFAULT_UNITS }: ExplainabilityProps) {
+  // Importances are differences in RMSE, which Beaufort can't express
+  const unit = units.wind === 'bft' ? 'ms' : units.wind;
+  const format = (value: number) => convertWind(value, unit).toFixed(2);
+  const formatSigned = (value: number) => `${value > 0 ? '+' : ''}${format(value)}`;
+
+  const { features } = importance;
+  // Shuffling a useless input can lower the error by chance; those bars stay empty
+  const maxImportance = Math.max(...features.map((f) => f.importance), 0);
+  const maxLagImportance = Math.max(...features.flatMap((f) => f.byLag), 0);
+  const lags = features[0]?.byLag.length ?? 0;
+
+  return (
+    <div className="mt-4 space-y-3">
+      <h4 className="text-md font-medium text-white">Input Importance</h4>
+      <p className="text-sm text-gray-300">
+        How much the one-hour-ahead wind speed error rises when an input is shuffled between
+        forecasts, on the {importance.samples} most recent validation windows. Baseline error{' '}
+        {format(importance.baselineRmse)} {windUnitLabel(unit)}.
+      </p>
+
+      <div className="space-y-1.5">
+        {features.map(({ feature, importance: value }) => (
+          <div key={feature} className="flex items-center gap-3 text-xs">
+            <span className="w-32 shrink-0 text-white/80">{FEATURE_LABELS[feature]}</span>
+            <div className="flex-1 h-3 bg-white/5 rounded">
+              <div
+                className="h-3 bg-indigo-500/70 rounded"
+                style={{
+                  width: `${maxImportance > 0 ? (Math.max(value, 0) / maxImportance) * 100 : 0}%`
+                }}
+              />
+            </div>
+            <span className="w-14 text-right font-mono text-indigo-200">
+              {formatSigned(value)}
+            </span>
+          </div>
+        ))}
+      </div>
+
+      {lags > 0 && (
+        <div className="mt-4 space-y-2">
+          <h4 className="text-sm font-medium text-white/90">By Hour of the Input Window</h4>
+          <div className="overflow-x-auto">
+            <table className="text-xs border-separate border-spacing-0.5">
+              <thead>
+                <tr className="text-gray-400">
+                  <th className="pr-2 font-normal text-left">Hours back</th>
+                  {Array.from({ length: lags }, (_, lag) => (
+                    <th key={lag} className="w-5 font-normal font-mono">
+                      {lag + 1}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {features.map(({ feature, byLag }) => (
+                  <tr key={feature}>
+                    <td className="pr-2 whitespace-nowrap text-white/80">
+                      {FEATURE_LABELS[feature]}
+                    </td>
+                    {byLag.map((value, lag) => (
+                      <td
+                        key={lag}
+                        title={`${lag + 1}h back: ${formatSigned(value)} ${windUnitLabel(unit)}`}
+                        className="w-5 h-4 rounded-sm"
+                        style={{
+                          backgroundColor: `rgba(99, 102, 241, ${
+                            maxLagImportance > 0 ? Math.max(value, 0) / maxLagImportance : 0
+                          })`
+                        }}
+                      />
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-xs text-white/70">
+            Darker cells mark the hours the model leans on most. Shuffling a single hour usually
+            matters less than shuffling the whole input, since neighbouring hours carry much the
+            same information.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
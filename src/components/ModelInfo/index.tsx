@@ -27,7 +27,19 @@ const modelInfo = {
   ]
 };
 
-export const ModelInfo: React.FC = () => {
+export interface ArchitectureSize {
+  label: string;
+  description: string;
+  // Trainable weights at the current settings
+  parameters: number;
+  selected: boolean;
+}
+
+interface ModelInfoProps {
+  architectures?: ArchitectureSize[];
+}
+
+export const ModelInfo: React.FC<ModelInfoProps> = ({ architectures = [] }) => {
   return (
     <div className="mt-2 space-y-3">
       <h4 className="text-md font-medium text-white">Model Information</h4>
@@ -48,6 +60,35 @@ export const ModelInfo: React.FC = () => {
           </div>
         ))}
       </div>
+
+      {architectures.length > 0 && (
+        <div className="mt-4 space-y-2">
+          <h4 className="text-sm font-medium text-white/90">Architectures</h4>
+          {architectures.map((architecture) => (
+            <div
+              key={architecture.label}
+              className={`rounded-lg p-3 ${
+                architecture.selected ? 'bg-indigo-500/10 border border-indigo-500/30' : 'bg-white/5'
+              }`}
+            >
+              <div className="flex justify-between items-start gap-4">
+                <div>
+                  <h4 className="text-sm font-medium text-white/90">
+                    {architecture.label}
+                    {architecture.selected && (
+                      <span className="ml-2 text-xs text-indigo-300">selected</span>
+                    )}
+                  </h4>
+                  <p className="text-xs text-white/70 mt-0.5">{architecture.description}</p>
+                </div>
+                <span className="text-xs bg-indigo-500/20 px-2 py-1 rounded text-indigo-200 whitespace-nowrap">
+                  {architecture.parameters.toLocaleString()} parameters
+                </span>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
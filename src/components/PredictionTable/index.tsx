@@ -1,11 +1,14 @@
 import React from 'react';
 import type { PredictionChunk } from '../WeatherPredictor/types';
+import { DEFAULT_UNITS, beaufortDescription, formatWind, windUnitLabel } from '../../lib/units';
+import type { UnitPreferences } from '../../lib/units';
 
 interface PredictionTableProps {
   predictions: PredictionChunk[];
+  units?: UnitPreferences;
 }
 
-export function PredictionTable({ predictions }: PredictionTableProps) {
+export function PredictionTable({ predictions, units = DEFAULT_UNITS }: PredictionTableProps) {
   if (!predictions.length) {
     return null;
   }
@@ -21,6 +24,10 @@ export function PredictionTable({ predictions }: PredictionTableProps) {
     });
   };
 
+  // Variables the model didn't predict show a dash rather than a made-up zero
+  const formatValue = (value: number | undefined, digits: number) =>
+    value === undefined || isNaN(value) ? '–' : value.toFixed(digits);
+
   return (
     <div className="mt-8">
       <h2 className="text-xl font-semibold mb-4">AI Predictions for Next 24 Hours</h2>
@@ -30,9 +37,12 @@ export function PredictionTable({ predictions }: PredictionTableProps) {
             <tr className="bg-gray-50">
               <th className="px-4 py-2 border-b">Date & Time</th>
               <th className="px-4 py-2 border-b">Temperature (°C)</th>
-              <th className="px-4 py-2 border-b">Wind Speed (m/s)</th>
-              <th className="px-4 py-2 border-b">Wind Gusts (m/s)</th>
+              <th className="px-4 py-2 border-b">Wind Speed ({windUnitLabel(units.wind)})</th>
+              <th className="px-4 py-2 border-b">Wind Gusts ({windUnitLabel(units.wind)})</th>
               <th className="px-4 py-2 border-b">Wind Direction</th>
+              <th className="px-4 py-2 border-b">Rain (mm)</th>
+              <th className="px-4 py-2 border-b">Pressure (hPa)</th>
+              <th className="px-4 py-2 border-b">Cloud Cover (%)</th>
               <th className="px-4 py-2 border-b">Confidence</th>
             </tr>
           </thead>
@@ -43,16 +53,31 @@ export function PredictionTable({ predictions }: PredictionTableProps) {
                   {formatDateTime(prediction.startTime)}
                 </td>
                 <td className="px-4 py-2 border-b">
-                  {prediction.temperature.toFixed(1)}
+                  {formatValue(prediction.temperature, 1)}
+                </td>
+                <td className="px-4 py-2 border-b" title={beaufortDescription(prediction.windSpeed)}>
+                  {formatWind(prediction.windSpeed, units.wind)}
+                  {prediction.quantiles.windSpeed && (
+                    <span className="ml-1 text-xs text-gray-500">
+                      ({formatWind(prediction.quantiles.windSpeed.p10, units.wind)}–
+                      {formatWind(prediction.quantiles.windSpeed.p90, units.wind)})
+                    </span>
+                  )}
+                </td>
+                <td className="px-4 py-2 border-b" title={beaufortDescription(prediction.windGusts)}>
+                  {formatWind(prediction.windGusts, units.wind)}
                 </td>
                 <td className="px-4 py-2 border-b">
-                  {prediction.windSpeed.toFixed(1)}
+                  {prediction.windDirection.toFixed(0)}°
                 </td>
                 <td className="px-4 py-2 border-b">
-                  {prediction.windGusts.toFixed(1)}
+                  {formatValue(prediction.precipitation, 1)}
                 </td>
                 <td className="px-4 py-2 border-b">
-                  {prediction.windDirection.toFixed(0)}°
+                  {formatValue(prediction.pressure, 0)}
+                </td>
+                <td className="px-4 py-2 border-b">
+                  {formatValue(prediction.cloudCover, 0)}
                 </td>
                 <td className="px-4 py-2 border-b">
                   {(prediction.confidence * 100).toFixed(0)}%
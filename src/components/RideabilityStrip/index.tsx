@@ -0,0 +1,183 @@
+import { DEFAULT_UNITS, convertWind, windToMs, windUnitLabel } from '../../lib/units';
+import type { UnitPreferences } from '../../lib/units';
+import type {
+  RideabilityHour,
+  RideabilitySettings,
+  RideabilitySummary
+} from '../WeatherPredictor/rideability';
+
+interface RideabilityStripProps {
+  hours: RideabilityHour[];
+  summary: RideabilitySummary | null;
+  error?: string | null;
+  settings: RideabilitySettings;
+  onSettingsChange: (settings: RideabilitySettings) => void;
+  units?: UnitPreferences;
+}
+
+// Hours between time labels under the strip
+const LABEL_EVERY = 6;
+
+// Red through amber to green as the chance rises
+const colourOf = (probability: number) => `hsl(${Math.round(probability * 120)}, 70%, 45%)`;
+
+const formatHour = (timestamp: number) =>
+  new Date(timestamp).toLocaleString('en-GB', {
+    weekday: 'short',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+
+const inputClass =
+  'w-16 bg-gray-800 border border-gray-700/50 rounded-lg px-2 py-1 text-gray-100';
+
+export function RideabilityStrip({
+  hours,
+  summary,
+  error = null,
+  settings,
+  onSettingsChange,
+  units = DEFAULT_UNITS
+}: RideabilityStripProps) {
+  const unit = units.wind;
+  const toDisplay = (ms: number) => Number(convertWind(ms, unit).toFixed(1));
+  const readNumber = (value: string, apply: (n: number) => RideabilitySettings) => {
+    const n = parseFloat(value);
+    if (isFinite(n)) onSettingsChange(apply(n));
+  };
+
+  return (
+    <div className="grid gap-3 bg-slate-900 p-4 rounded-xl border border-slate-700">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h4 className="text-md font-medium text-white">Rideability</h4>
+        <div className="flex flex-wrap items-center gap-2 text-sm text-gray-300">
+          <label htmlFor="ride-min-wind">Wind</label>
+          <input
+            id="ride-min-wind"
+            type="number"
+            min={0}
+            step={1}
+            value={toDisplay(settings.minWind)}
+            onChange={(e) =>
+              readNumber(e.target.value, (n) => ({ ...settings, minWind: windToMs(n, unit) }))
+            }
+            className={inputClass}
+          />
+          <span>to</span>
+          <input
+            aria-label="Highest wind"
+            type="number"
+            min={0}
+            step={1}
+            value={toDisplay(settings.maxWind)}
+            onChange={(e) =>
+              readNumber(e.target.value, (n) => ({ ...settings, maxWind: windToMs(n, unit) }))
+            }
+            className={inputClass}
+          />
+          <span>{windUnitLabel(unit)}</span>
+          <label htmlFor="ride-gust-factor" className="ml-2">
+            Gust factor up to
+          </label>
+          <input
+            id="ride-gust-factor"
+            type="number"
+            min={1}
+            step={0.1}
+            value={settings.maxGustFactor}
+            onChange={(e) =>
+              readNumber(e.target.value, (n) => ({ ...settings, maxGustFactor: n }))
+            }
+            className={inputClass}
+          />
+          <label className="ml-2 flex items-center gap-1.5">
+            <input
+              type="checkbox"
+              checked={settings.sector !== null}
+              onChange={(e) =>
+                onSettingsChange({
+                  ...settings,
+                  sector: e.target.checked ? { from: 180, to: 270 } : null
+                })
+              }
+            />
+            From
+          </label>
+          {settings.sector && (
+            <>
+              <input
+                aria-label="Sector start (degrees)"
+                type="number"
+                min={0}
+                max={359}
+                step={10}
+                value={settings.sector.from}
+                onChange={(e) =>
+                  readNumber(e.target.value, (n) => ({
+                    ...settings,
+                    sector: { from: n, to: settings.sector?.to ?? n }
+                  }))
+                }
+                className={inputClass}
+              />
+              <span>° to</span>
+              <input
+                aria-label="Sector end (degrees)"
+                type="number"
+                min={0}
+                max={359}
+                step={10}
+                value={settings.sector.to}
+                onChange={(e) =>
+                  readNumber(e.target.value, (n) => ({
+                    ...settings,
+                    sector: { from: settings.sector?.from ?? n, to: n }
+                  }))
+                }
+                className={inputClass}
+              />
+              <span>°</span>
+            </>
+          )}
+        </div>
+      </div>
+
+      {error ? (
+        <p className="text-sm text-amber-300">Rideability unavailable: {error}</p>
+      ) : hours.length > 0 ? (
+        <div>
+          <div className="flex h-6 rounded overflow-hidden">
+            {hours.map(({ startTime, probability }) => (
+              <div
+                key={startTime}
+                title={`${formatHour(startTime)}: ${Math.round(probability * 100)}% rideable`}
+                className="flex-1"
+                style={{ backgroundColor: colourOf(probability) }}
+              />
+            ))}
+          </div>
+          <div className="flex text-xs text-gray-400 mt-1">
+            {hours.map(({ startTime }, i) => (
+              <span key={startTime} className="flex-1 whitespace-nowrap overflow-visible">
+                {i % LABEL_EVERY === 0 ? formatHour(startTime) : ''}
+              </span>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <p className="text-sm text-gray-400">
+          Learning rideability from the validation forecasts...
+        </p>
+      )}
+
+      {summary && !error && (
+        <p className="text-xs text-white/70">
+          Chance that each predicted hour meets these limits, learned from{' '}
+          {summary.trainingPairs} validation forecast hours. On the most recent ones it scored a
+          Brier score of {summary.brier.toFixed(3)} against {summary.climatologyBrier.toFixed(3)}{' '}
+          for always giving the usual {Math.round(summary.positiveRate * 100)}%; lower is better.
+        </p>
+      )}
+    </div>
+  );
+}
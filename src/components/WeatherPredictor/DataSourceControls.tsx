@@ -0,0 +1,109 @@
+import type { ChangeEvent } from 'react';
+import type { WeatherProvider } from '../../lib/providers/types';
+import type { CacheStats } from '../../lib/weatherCache';
+
+interface DataSourceControlsProps {
+  provider: WeatherProvider;
+  canDownload: boolean;
+  cacheStats: CacheStats;
+  cachedSpots: number;
+  onRecordingLoad: (file: File) => void;
+  onUseLiveData: () => void;
+  onDownloadRecording: () => void;
+  onClearCache: () => void;
+}
+
+export function DataSourceControls({
+  provider,
+  canDownload,
+  cacheStats,
+  cachedSpots,
+  onRecordingLoad,
+  onUseLiveData,
+  onDownloadRecording,
+  onClearCache
+}: DataSourceControlsProps) {
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) onRecordingLoad(file);
+    // Allow loading the same file twice in a row
+    e.target.value = '';
+  };
+
+  const requests = cacheStats.hits + cacheStats.partialHits + cacheStats.misses;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center justify-between gap-4">
+        <div className="text-sm text-gray-300">
+          Data source:{' '}
+          {provider.attribution.url ? (
+            <a
+              href={provider.attribution.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-indigo-300 hover:text-indigo-200"
+            >
+              {provider.attribution.name}
+            </a>
+          ) : (
+            <span className="text-indigo-300">{provider.attribution.name}</span>
+          )}
+          {provider.attribution.license && (
+            <span className="text-gray-500"> ({provider.attribution.license})</span>
+          )}
+          {provider.capabilities.offline && (
+            <span className="ml-2 text-xs bg-indigo-500/20 px-2 py-1 rounded text-indigo-200">
+              Offline replay
+            </span>
+          )}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <label className="px-3 py-1.5 rounded-lg text-sm bg-gray-800 text-gray-100 hover:bg-gray-700 border border-gray-700/50 cursor-pointer">
+            Replay recording
+            <input
+              type="file"
+              accept="application/json,.json"
+              onChange={handleFileChange}
+              className="sr-only"
+            />
+          </label>
+          {canDownload && (
+            <button
+              onClick={onDownloadRecording}
+              className="px-3 py-1.5 rounded-lg text-sm bg-gray-800 text-gray-100 hover:bg-gray-700 border border-gray-700/50"
+            >
+              Save recording
+            </button>
+          )}
+          {provider.capabilities.offline && (
+            <button
+              onClick={onUseLiveData}
+              className="px-3 py-1.5 rounded-lg text-sm bg-gray-800 text-gray-100 hover:bg-gray-700 border border-gray-700/50"
+            >
+              Use live data
+            </button>
+          )}
+        </div>
+      </div>
+
+      {!provider.capabilities.offline && (
+        <div className="flex flex-wrap items-center justify-between gap-4 text-xs text-gray-400">
+          <span>
+            Cache: {cacheStats.hits} hits, {cacheStats.partialHits} partial, {cacheStats.misses}{' '}
+            misses
+            {requests > 0 &&
+              ` · ${cacheStats.hoursFromCache} of ${
+                cacheStats.hoursFromCache + cacheStats.hoursFetched
+              } hours served locally`}
+            {` · ${cachedSpots} ${cachedSpots === 1 ? 'spot' : 'spots'} stored`}
+          </span>
+          <button onClick={onClearCache} className="text-indigo-400 hover:text-indigo-300">
+            Clear cache
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
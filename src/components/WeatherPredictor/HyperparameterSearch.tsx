@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { DEFAULT_UNITS, convertWind, windUnitLabel } from '../../lib/units';
+import type { UnitPreferences } from '../../lib/units';
+import { describeHyperParameters } from './presets';
+import { SEARCH_CANDIDATES } from './search';
+import type { SearchCandidate, SearchProgress, SearchResult } from './search';
+
+interface HyperparameterSearchProps {
+  // False without a spot, or while an analysis is running
+  canSearch: boolean;
+  isSearching: boolean;
+  progress: SearchProgress | null;
+  result: SearchResult | null;
+  error: string | null;
+  units?: UnitPreferences;
+  onStart: () => void;
+  onCancel: () => void;
+  onSave: (name: string) => void;
+}
+
+export function HyperparameterSearch({
+  canSearch,
+  isSearching,
+  progress,
+  result,
+  error,
+  units = DEFAULT_UNITS,
+  onStart,
+  onCancel,
+  onSave
+}: HyperparameterSearchProps) {
+  const [name, setName] = useState('');
+  const [savedFor, setSavedFor] = useState<SearchResult | null>(null);
+
+  // Beaufort is not linear, so errors are shown in m/s instead
+  const errorUnit = units.wind === 'bft' ? 'ms' : units.wind;
+  const formatScore = (rmse: number | undefined) =>
+    rmse === undefined
+      ? '–'
+      : isFinite(rmse)
+        ? convertWind(rmse, errorUnit).toFixed(2)
+        : 'failed';
+
+  const candidates = result?.candidates ?? progress?.candidates ?? [];
+  const rungs = progress?.rungs ?? 0;
+  const training = progress?.training;
+  const status = (candidate: SearchCandidate) => {
+    if (result?.winner.id === candidate.id) return 'winner';
+    if (candidate.eliminatedAfter !== null) {
+      return `dropped after rung ${candidate.eliminatedAfter + 1}`;
+    }
+    if (progress?.evaluating === candidate.id) return 'validating';
+    return '';
+  };
+
+  const handleSave = () => {
+    if (!result || !name.trim()) return;
+    onSave(name.trim());
+    setSavedFor(result);
+    setName('');
+  };
+
+  return (
+    <div className="space-y-3 text-sm text-gray-300">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <p className="text-gray-400">
+          Tries {SEARCH_CANDIDATES} random settings on this spot's history with the same
+          walk-forward validation as a normal run. Each round keeps the better half and trains it
+          for twice as long.
+        </p>
+        <button
+          onClick={isSearching ? onCancel : onStart}
+          disabled={!isSearching && !canSearch}
+          className="px-3 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 text-white disabled:opacity-50"
+        >
+          {isSearching ? 'Cancel Search' : 'Search Hyperparameters'}
+        </button>
+      </div>
+
+      {isSearching && progress && (
+        <p className="text-indigo-300">
+          {rungs > 0
+            ? `Rung ${progress.rung + 1}/${rungs}, ${progress.rungEpochs} epochs per fold`
+            : 'Loading history...'}
+          {training?.status &&
+            ` · ${training.status} (epoch ${training.currentEpoch}/${training.totalEpochs})`}
+        </p>
+      )}
+
+      {error && <p className="text-red-400">{error}</p>}
+
+      {candidates.length > 0 && (
+        <div className="overflow-x-auto">
+          <table className="w-full text-left">
+            <thead className="text-gray-400">
+              <tr>
+                <th className="py-1 pr-3 font-normal">Settings</th>
+                {Array.from({ length: rungs }, (_, rung) => (
+                  <th key={rung} className="py-1 pr-3 font-normal">
+                    Rung {rung + 1} RMSE ({windUnitLabel(errorUnit)})
+                  </th>
+                ))}
+                <th className="py-1 font-normal"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {candidates.map((candidate) => (
+                <tr
+                  key={candidate.id}
+                  className={
+                    result?.winner.id === candidate.id
+                      ? 'text-indigo-100'
+                      : candidate.eliminatedAfter !== null
+                        ? 'text-gray-500'
+                        : ''
+                  }
+                >
+                  <td className="py-1 pr-3">{describeHyperParameters(candidate.params)}</td>
+                  {Array.from({ length: rungs }, (_, rung) => (
+                    <td key={rung} className="py-1 pr-3 font-mono">
+                      {formatScore(candidate.scores[rung])}
+                    </td>
+                  ))}
+                  <td className="py-1 text-xs">{status(candidate)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+
+      {result && (
+        <div className="flex flex-wrap items-center gap-3">
+          {savedFor === result ? (
+            <span className="text-indigo-300">Saved as a preset and selected</span>
+          ) : (
+            <>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="Preset name"
+                className="bg-gray-800 border border-gray-700/50 rounded-lg px-2 py-1 text-gray-100 placeholder-gray-500"
+              />
+              <button
+                onClick={handleSave}
+                disabled={!name.trim()}
+                className="px-3 py-1 rounded-lg bg-indigo-600 hover:bg-indigo-500 text-white disabled:opacity-50"
+              >
+                Save as Preset
+              </button>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
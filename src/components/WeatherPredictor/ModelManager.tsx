@@ -0,0 +1,121 @@
+import { useEffect, useState } from 'react';
+import { MODEL_TTL_MS, deleteSavedModel, listSavedModels } from '../../lib/modelStore';
+import type { SavedModelRecord } from '../../lib/modelStore';
+import type { OnlineUpdate } from './model';
+
+interface ModelManagerProps {
+  currentSpotKey: string | null;
+  // Whether the model in use for the current spot was loaded rather than trained
+  usingSavedModel: boolean;
+  // What happened to the current spot's saved model on this run, if it had one
+  onlineUpdate: OnlineUpdate | null;
+  // Bumped whenever a model is saved, so the list reloads
+  refreshToken: number;
+  disabled: boolean;
+  onRetrain: (record: SavedModelRecord) => void;
+}
+
+const formatAge = (trainedAt: number) => {
+  const hours = Math.floor((Date.now() - trainedAt) / (60 * 60 * 1000));
+  if (hours < 1) return 'just now';
+  if (hours < 48) return `${hours}h ago`;
+  return `${Math.floor(hours / 24)} days ago`;
+};
+
+const describeUpdate = (update: OnlineUpdate) => {
+  if (update.retrainReason) return `retrained: ${update.retrainReason}`;
+  if (update.windows === 0) return 'no new hours to learn from';
+  const error = isNaN(update.rmse) ? '' : `, ${update.rmse.toFixed(2)} m/s error on them`;
+  return `updated with ${update.newHours} new hours${error}`;
+};
+
+const PRESET_LABELS = { fast: 'Fast', balanced: 'Balanced', accurate: 'Accurate' };
+
+export function ModelManager({
+  currentSpotKey,
+  usingSavedModel,
+  onlineUpdate,
+  refreshToken,
+  disabled,
+  onRetrain
+}: ModelManagerProps) {
+  const [records, setRecords] = useState<SavedModelRecord[]>([]);
+
+  const refresh = () => {
+    listSavedModels()
+      .then(setRecords)
+      .catch((error) => console.warn('Could not list saved models:', error));
+  };
+
+  useEffect(refresh, [refreshToken]);
+
+  const handleDelete = async (key: string) => {
+    await deleteSavedModel(key);
+    refresh();
+  };
+
+  if (records.length === 0) {
+    return (
+      <p className="text-sm text-gray-400">
+        Trained models are saved per spot and reused for {MODEL_TTL_MS / (24 * 60 * 60 * 1000)}{' '}
+        days while the settings stay the same, learning from new hours as they come in. None
+        saved yet.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-2">
+      {records.map((record) => {
+        const stale = Date.now() - record.trainedAt >= MODEL_TTL_MS;
+        const isCurrent = record.key === currentSpotKey;
+        const preset =
+          record.settings.customPresetName ?? PRESET_LABELS[record.settings.performancePreset];
+        return (
+          <div
+            key={record.key}
+            className="flex flex-wrap items-center justify-between gap-3 text-sm text-gray-300"
+          >
+            <div>
+              <span className="font-mono text-gray-100">{record.key}</span>
+              <span className="text-gray-400">
+                {' '}
+                · trained {formatAge(record.trainedAt)} ·{' '}
+                {preset}, {record.settings.forecastMode},{' '}
+                {record.settings.historyDays} days history
+                {record.settings.trainingMode === 'fine-tune' && ', fine-tuned'}
+                {!!record.updates &&
+                  `, ${record.updates} incremental update${record.updates === 1 ? '' : 's'}`}
+              </span>
+              {stale && <span className="ml-2 text-amber-300">stale</span>}
+              {isCurrent && (
+                <span className="ml-2 text-indigo-300">
+                  {usingSavedModel ? 'in use (loaded)' : 'in use'}
+                </span>
+              )}
+              {isCurrent && onlineUpdate && (
+                <p className="text-xs text-gray-400">{describeUpdate(onlineUpdate)}</p>
+              )}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => onRetrain(record)}
+                disabled={disabled}
+                className="px-3 py-1 rounded-lg bg-gray-700 hover:bg-gray-600 text-white disabled:opacity-50"
+              >
+                Retrain
+              </button>
+              <button
+                onClick={() => handleDelete(record.key)}
+                disabled={disabled}
+                className="px-3 py-1 rounded-lg bg-gray-700 hover:bg-red-600 text-white disabled:opacity-50"
+              >
+                Delete
+              </button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
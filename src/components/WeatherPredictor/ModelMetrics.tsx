@@ -1,12 +1,29 @@
 // src/components/WeatherPredictor/ModelMetrics.tsx
 
 import React, { useState } from 'react';
-import type { ModelMetricsType, TimeSeriesDataPoint } from './types';
+import type {
+  ModelMetricsType,
+  QuantileField,
+  SkillScore,
+  SkillVariable,
+  TimeSeriesDataPoint
+} from './types';
+import { BASELINE_LABELS, SKILL_VARIABLES } from './baselines';
+import { isDirection } from './metrics';
 import { Chart } from '../Chart';
 import { ChevronDownIcon, ChevronUpIcon } from '@heroicons/react/24/outline';
+import {
+  DEFAULT_UNITS,
+  convertHeight,
+  convertWind,
+  heightUnitLabel,
+  windUnitLabel
+} from '../../lib/units';
+import type { UnitPreferences } from '../../lib/units';
 
 interface ModelMetricsProps {
   metrics: ModelMetricsType;
+  units?: UnitPreferences;
 }
 
 interface ExpandableDescriptionProps {
@@ -39,11 +56,96 @@ function ExpandableDescription({ title, children }: ExpandableDescriptionProps)
   );
 }
 
-export function ModelMetrics({ metrics }: ModelMetricsProps) {
+const SKILL_VARIABLE_LABELS: { [variable in SkillVariable]: string } = {
+  windSpeed: 'Wind speed',
+  windGusts: 'Gusts',
+  windDirection: 'Direction',
+  temperature: 'Temperature',
+  pressure: 'Pressure'
+};
+
+const VARIABLE_LABELS: { [variable in QuantileField]: string } = {
+  windSpeed: 'Wind speed',
+  windGusts: 'Gusts',
+  windDirection: 'Wind direction',
+  waveHeight: 'Wave height',
+  wavePeriod: 'Wave period',
+  swellDirection: 'Swell direction',
+  temperature: 'Temperature',
+  precipitation: 'Precipitation',
+  pressure: 'Pressure',
+  cloudCover: 'Cloud cover',
+  windSpeed80m: 'Wind speed at 80 m',
+  windDirection80m: 'Wind direction at 80 m'
+};
+
+// Lead hours shown as columns in the skill table
+const SKILL_LEAD_HOURS = [1, 3, 6, 12, 24];
+
+const skillColor = (skill: number) =>
+  !isFinite(skill) ? 'text-gray-500' : skill > 0 ? 'text-emerald-300' : 'text-rose-300';
+
+// A near-perfect baseline sends skill towards minus infinity, so very low values are capped
+const formatSkill = (skill: number) => {
+  if (!isFinite(skill)) return '–';
+  if (skill < -9.99) return '< −999%';
+  return `${skill > 0 ? '+' : ''}${(skill * 100).toFixed(0)}%`;
+};
+
+// Skill over all lead hours, from RMSEs pooled across them
+const overallSkill = ({ modelRmse, baselineRmse }: SkillScore) => {
+  const leads = modelRmse
+    .map((m, i) => [m, baselineRmse[i]])
+    .filter(([m, b]) => isFinite(m) && isFinite(b));
+  if (leads.length === 0) return NaN;
+  const pooled = (values: number[]) =>
+    Math.sqrt(values.reduce((sum, v) => sum + v * v, 0) / values.length);
+  const baseline = pooled(leads.map(([, b]) => b));
+  return baseline > 0 ? 1 - pooled(leads.map(([m]) => m)) / baseline : NaN;
+};
+
+export function ModelMetrics({ metrics, units = DEFAULT_UNITS }: ModelMetricsProps) {
+  const [skillVariable, setSkillVariable] = useState<SkillVariable>('windSpeed');
+
   if (!metrics) {
     return null;
   }
 
+  // Actuals and predictions are wind speeds in m/s; convert before any statistics so
+  // errors are in the display unit. Errors are differences, which have no meaning on the
+  // Beaufort scale, so they fall back to m/s there.
+  const windLabel = windUnitLabel(units.wind);
+  const errorUnit = units.wind === 'bft' ? 'ms' : units.wind;
+  const errorLabel = windUnitLabel(errorUnit);
+  const displayActuals = (metrics.actuals || []).map((v) => convertWind(v, units.wind));
+  const displayPredictions = (metrics.predictions || []).map((v) => convertWind(v, units.wind));
+  const errorActuals = (metrics.actuals || []).map((v) => convertWind(v, errorUnit));
+  const errorPredictions = (metrics.predictions || []).map((v) => convertWind(v, errorUnit));
+  const displayErrors = errorActuals.map((actual, i) => errorPredictions[i] - actual);
+  const rmse = displayErrors.length
+    ? Math.sqrt(displayErrors.reduce((sum, err) => sum + err * err, 0) / displayErrors.length)
+    : metrics.rmse ?? 0;
+  const mae = displayErrors.length
+    ? displayErrors.reduce((sum, err) => sum + Math.abs(err), 0) / displayErrors.length
+    : metrics.mae ?? 0;
+
+  // Walk-forward folds, scored like the cards above; their validation windows make up
+  // actuals and predictions in fold order
+  let foldOffset = 0;
+  const foldRows = (metrics.folds ?? []).map((fold) => {
+    const errors = displayErrors.slice(foldOffset, foldOffset + fold.validationSamples);
+    foldOffset += fold.validationSamples;
+    return {
+      ...fold,
+      rmse: errors.length
+        ? Math.sqrt(errors.reduce((sum, err) => sum + err * err, 0) / errors.length)
+        : fold.rmse,
+      mae: errors.length
+        ? errors.reduce((sum, err) => sum + Math.abs(err), 0) / errors.length
+        : fold.mae
+    };
+  });
+
   // Helper function to safely map time series data
   const mapTimeSeriesData = (data: TimeSeriesDataPoint[] | undefined) => {
     if (!data || !Array.isArray(data)) {
@@ -62,6 +164,78 @@ export function ModelMetrics({ metrics }: ModelMetricsProps) {
     return metrics.trainingLoss[metrics.trainingLoss.length - 1];
   };
 
+  const [primaryLeadTimes, comparisonLeadTimes] = metrics.leadTimeRmse ?? [];
+  const leadTimeData = (primaryLeadTimes?.rmse ?? []).map((rmse, index) => ({
+    timestamp: index + 1,
+    historical: convertWind(rmse, errorUnit),
+    forecast:
+      comparisonLeadTimes?.rmse[index] !== undefined
+        ? convertWind(comparisonLeadTimes.rmse[index], errorUnit)
+        : undefined
+  }));
+  const modeLabel = (mode: string) => (mode === 'direct' ? 'Direct' : 'Recursive');
+
+  const skillScores = metrics.skillScores ?? [];
+  const skillVariables = SKILL_VARIABLES.filter((variable) =>
+    skillScores.some((score) => score.variable === variable)
+  );
+  const shownSkillScores = skillScores.filter((score) => score.variable === skillVariable);
+  const skillLeadHours = SKILL_LEAD_HOURS.filter(
+    (hour) => hour <= (shownSkillScores[0]?.skill.length ?? 0)
+  );
+  const formatSkillRmse = (rmse: number) => {
+    if (!isFinite(rmse)) return '–';
+    switch (skillVariable) {
+      case 'windSpeed':
+      case 'windGusts':
+        return `${convertWind(rmse, errorUnit).toFixed(2)} ${errorLabel}`;
+      case 'windDirection':
+        return `${rmse.toFixed(0)}°`;
+      case 'temperature':
+        return `${rmse.toFixed(2)} °C`;
+      default:
+        return `${rmse.toFixed(2)} hPa`;
+    }
+  };
+
+  // Errors are differences, so wind ones use m/s in place of Beaufort like the lead times
+  const variableUnit = (variable: QuantileField) => {
+    if (isDirection(variable)) return '°';
+    switch (variable) {
+      case 'windSpeed':
+      case 'windGusts':
+      case 'windSpeed80m':
+        return errorLabel;
+      case 'waveHeight':
+        return heightUnitLabel(units.height);
+      case 'wavePeriod':
+        return 's';
+      case 'temperature':
+        return '°C';
+      case 'precipitation':
+        return 'mm';
+      case 'pressure':
+        return 'hPa';
+      default:
+        return '%';
+    }
+  };
+  const formatVariableError = (variable: QuantileField, error: number) => {
+    if (!isFinite(error)) return '–';
+    switch (variable) {
+      case 'windSpeed':
+      case 'windGusts':
+      case 'windSpeed80m':
+        // Linear units, so the sign survives the conversion
+        return convertWind(error, errorUnit).toFixed(2);
+      case 'waveHeight':
+        return convertHeight(error, units.height).toFixed(2);
+      default:
+        return error.toFixed(isDirection(variable) || variable === 'cloudCover' ? 0 : 2);
+    }
+  };
+  const variableRows = metrics.variableMetrics ?? [];
+
   // Prepare data for loss charts with null checks
   const epochs = Array.from({ length: metrics.trainingLoss?.length || 0 }, (_, i) => i + 1);
   const lossData = epochs.map((epoch, index) => ({
@@ -71,9 +245,9 @@ export function ModelMetrics({ metrics }: ModelMetricsProps) {
   })).filter(d => d.training !== null || d.validation !== null);
 
   // Prepare scatter plot data with null checks and calculate regression line
-  const scatterData = (metrics.actuals || []).map((actual, index) => ({
+  const scatterData = displayActuals.map((actual, index) => ({
     x: actual,
-    y: metrics.predictions?.[index] ?? actual
+    y: displayPredictions[index] ?? actual
   })).filter(d => d.x != null && d.y != null);
 
   // Calculate linear regression for best fit line
@@ -158,10 +332,7 @@ export function ModelMetrics({ metrics }: ModelMetricsProps) {
   };
 
   // Calculate error metrics
-  const errorStats = calculateErrorDistribution(
-    metrics.actuals || [],
-    metrics.predictions || []
-  );
+  const errorStats = calculateErrorDistribution(errorActuals, errorPredictions);
 
   // Safe timestamp formatting
   const formatTimestamp = (timestamp: string | number | undefined) => {
@@ -190,7 +361,9 @@ export function ModelMetrics({ metrics }: ModelMetricsProps) {
             <div className="w-2.5 h-2.5 rounded-full bg-blue-400 ring-4 ring-blue-400/10"></div>
             <span className="text-sm font-medium text-blue-100">RMSE</span>
           </div>
-          <div className="font-mono text-2xl text-white">{(metrics.rmse ?? 0).toFixed(2)}</div>
+          <div className="font-mono text-2xl text-white">
+            {rmse.toFixed(2)} <span className="text-sm text-gray-400">{errorLabel}</span>
+          </div>
           <p className="text-xs text-gray-400 mt-1">Root Mean Square Error</p>
         </div>
 
@@ -199,7 +372,9 @@ export function ModelMetrics({ metrics }: ModelMetricsProps) {
             <div className="w-2.5 h-2.5 rounded-full bg-indigo-400 ring-4 ring-indigo-400/10"></div>
             <span className="text-sm font-medium text-indigo-100">MAE</span>
           </div>
-          <div className="font-mono text-2xl text-white">{(metrics.mae ?? 0).toFixed(2)}</div>
+          <div className="font-mono text-2xl text-white">
+            {mae.toFixed(2)} <span className="text-sm text-gray-400">{errorLabel}</span>
+          </div>
           <p className="text-xs text-gray-400 mt-1">Mean Absolute Error</p>
         </div>
 
@@ -213,6 +388,104 @@ export function ModelMetrics({ metrics }: ModelMetricsProps) {
         </div>
       </div>
 
+      {/* Walk-forward validation */}
+      {foldRows.length > 0 && (
+        <div className="bg-slate-900 p-6 rounded-xl border border-slate-700">
+          <h4 className="text-lg font-medium text-white mb-4">Walk-Forward Validation</h4>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-gray-300">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-slate-700">
+                  <th className="py-2 pr-4 font-medium">Fold</th>
+                  <th className="py-2 pr-4 font-medium">Validated period</th>
+                  <th className="py-2 pr-4 font-medium">Training windows</th>
+                  <th className="py-2 pr-4 font-medium">Validation windows</th>
+                  <th className="py-2 pr-4 font-medium">Best epoch</th>
+                  <th className="py-2 pr-4 font-medium">RMSE ({errorLabel})</th>
+                  <th className="py-2 font-medium">MAE ({errorLabel})</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {foldRows.map((fold) => (
+                  <tr key={fold.fold} className="border-b border-slate-800">
+                    <td className="py-2 pr-4">{fold.fold}</td>
+                    <td className="py-2 pr-4 font-sans">
+                      {formatTimestamp(fold.validationStart)} – {formatTimestamp(fold.validationEnd)}
+                    </td>
+                    <td className="py-2 pr-4">{fold.trainingSamples}</td>
+                    <td className="py-2 pr-4">{fold.validationSamples}</td>
+                    <td className="py-2 pr-4">{fold.bestEpoch}</td>
+                    <td className="py-2 pr-4">{fold.rmse.toFixed(2)}</td>
+                    <td className="py-2">{fold.mae.toFixed(2)}</td>
+                  </tr>
+                ))}
+                <tr className="text-white">
+                  <td className="py-2 pr-4 font-sans" colSpan={3}>
+                    All folds
+                  </td>
+                  <td className="py-2 pr-4">{metrics.sampleSize}</td>
+                  <td className="py-2 pr-4"></td>
+                  <td className="py-2 pr-4">{rmse.toFixed(2)}</td>
+                  <td className="py-2">{mae.toFixed(2)}</td>
+                </tr>
+              </tbody>
+            </table>
+          </div>
+          <ExpandableDescription title="Understanding Walk-Forward Validation">
+            <div className="space-y-2">
+              <p><strong>What it shows:</strong> {metrics.validationStrategy}. The most recent stretch of history is split into consecutive blocks, and for each block a fresh model is trained only on the hours before it, then scored on the block.</p>
+              <p><strong>No look-ahead:</strong> Normalisation is fitted on each fold's training hours alone, so nothing about the validated period leaks into training.</p>
+              <p><strong>Model in use:</strong> Trained afterwards on all the history, for the average of the folds' best epochs.</p>
+              <p>The cards above, the scatter plot and the error distribution pool every fold's validation windows.</p>
+            </div>
+          </ExpandableDescription>
+        </div>
+      )}
+
+      {/* Per-variable accuracy */}
+      {variableRows.length > 0 && (
+        <div className="bg-slate-900 p-6 rounded-xl border border-slate-700">
+          <h4 className="text-lg font-medium text-white mb-4">Per-Variable Accuracy</h4>
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-gray-300">
+              <thead>
+                <tr className="text-left text-gray-400 border-b border-slate-700">
+                  <th className="py-2 pr-4 font-medium">Variable</th>
+                  <th className="py-2 pr-4 font-medium">Unit</th>
+                  <th className="py-2 pr-4 font-medium">RMSE</th>
+                  <th className="py-2 pr-4 font-medium">MAE</th>
+                  <th className="py-2 pr-4 font-medium">Bias</th>
+                  <th className="py-2 font-medium">Samples</th>
+                </tr>
+              </thead>
+              <tbody className="font-mono">
+                {variableRows.map((row) => (
+                  <tr key={row.variable} className="border-b border-slate-800">
+                    <td className="py-2 pr-4 font-sans">{VARIABLE_LABELS[row.variable]}</td>
+                    <td className="py-2 pr-4">{variableUnit(row.variable)}</td>
+                    <td className="py-2 pr-4">{formatVariableError(row.variable, row.rmse)}</td>
+                    <td className="py-2 pr-4">{formatVariableError(row.variable, row.mae)}</td>
+                    <td className="py-2 pr-4">
+                      {row.bias > 0 ? '+' : ''}
+                      {formatVariableError(row.variable, row.bias)}
+                    </td>
+                    <td className="py-2">{row.samples}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <ExpandableDescription title="Understanding Per-Variable Accuracy">
+            <div className="space-y-2">
+              <p><strong>What it shows:</strong> How far the one-hour-ahead predictions from the walk-forward folds were from what was then observed, for every value the model predicts, in that value's own unit.</p>
+              <p><strong>Directions:</strong> Errors are measured along the shorter way round the compass, so a prediction of 350° against an observed 10° is 20° out rather than 340°.</p>
+              <p><strong>Bias:</strong> The average signed error. Positive means the model tends to predict too high, or for directions too far clockwise.</p>
+              <p>Variables the spot has no observations for, such as waves inland, are left out.</p>
+            </div>
+          </ExpandableDescription>
+        </div>
+      )}
+
       {/* Loss Chart */}
       {lossData.length > 0 && (
         <div className="bg-slate-900 p-6 rounded-xl border border-slate-700">
@@ -233,7 +506,7 @@ export function ModelMetrics({ metrics }: ModelMetricsProps) {
             <div className="space-y-2">
               <p><strong>What it shows:</strong> The model's learning progress over training iterations (epochs).</p>
               <p><strong>Training Loss:</strong> Error on data the model learns from.</p>
-              <p><strong>Validation Loss:</strong> Error on unseen data, testing true performance.</p>
+              <p><strong>Validation Loss:</strong> Error on unseen data, testing true performance. Shown for the last walk-forward fold.</p>
               <p><strong>Good patterns:</strong></p>
               <ul className="list-disc list-inside ml-2">
                 <li>Both lines trending downward (learning is happening)</li>
@@ -251,6 +524,106 @@ export function ModelMetrics({ metrics }: ModelMetricsProps) {
         </div>
       )}
 
+      {/* Error by Lead Time */}
+      {leadTimeData.length > 0 && (
+        <div className="bg-slate-900 p-6 rounded-xl border border-slate-700">
+          <h4 className="text-lg font-medium text-white mb-4">Wind Speed Error by Lead Time</h4>
+          <div className="h-80">
+            <Chart
+              data={leadTimeData}
+              yLabel={`RMSE (${errorLabel})`}
+              xLabel="Hours ahead"
+              historicalLabel={`${modeLabel(primaryLeadTimes.mode)} (in use)`}
+              forecastLabel={comparisonLeadTimes && modeLabel(comparisonLeadTimes.mode)}
+              id="lead-time-chart"
+              isTimeSeries={false}
+              showXAxis={true}
+            />
+          </div>
+          <ExpandableDescription title="Understanding Error by Lead Time">
+            <div className="space-y-2">
+              <p><strong>What it shows:</strong> How far off full forecasts are, hour by hour, when started from points inside each walk-forward validation block.</p>
+              <p><strong>Recursive:</strong> Predicts one hour and feeds it back in, so errors compound with lead time.</p>
+              <p><strong>Direct:</strong> Predicts every hour in one pass, so an early mistake isn't carried forward.</p>
+              <p>When both modes are shown they were scored on exactly the same forecast start times.</p>
+            </div>
+          </ExpandableDescription>
+        </div>
+      )}
+
+      {/* Skill against baselines */}
+      {skillVariables.length > 0 && (
+        <div className="bg-slate-900 p-6 rounded-xl border border-slate-700">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <h4 className="text-lg font-medium text-white">Skill Against Baselines</h4>
+            <div className="flex flex-wrap gap-1">
+              {skillVariables.map((variable) => (
+                <button
+                  key={variable}
+                  onClick={() => setSkillVariable(variable)}
+                  className={`px-3 py-1 rounded-lg text-sm ${
+                    variable === skillVariable
+                      ? 'bg-indigo-600 text-white'
+                      : 'bg-slate-800 text-gray-300 hover:bg-slate-700'
+                  }`}
+                >
+                  {SKILL_VARIABLE_LABELS[variable]}
+                </button>
+              ))}
+            </div>
+          </div>
+          {shownSkillScores.length === 0 ? (
+            <p className="text-sm text-gray-400">
+              Not enough data to score {SKILL_VARIABLE_LABELS[skillVariable].toLowerCase()}.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full text-sm text-gray-300">
+                <thead>
+                  <tr className="text-left text-gray-400 border-b border-slate-700">
+                    <th className="py-2 pr-4 font-medium">Baseline</th>
+                    {skillLeadHours.map((hour) => (
+                      <th key={hour} className="py-2 pr-4 font-medium">
+                        +{hour}h
+                      </th>
+                    ))}
+                    <th className="py-2 font-medium">All leads</th>
+                  </tr>
+                </thead>
+                <tbody className="font-mono">
+                  {shownSkillScores.map((score) => (
+                    <tr key={score.baseline} className="border-b border-slate-800">
+                      <td className="py-2 pr-4 font-sans">{BASELINE_LABELS[score.baseline]}</td>
+                      {skillLeadHours.map((hour) => (
+                        <td
+                          key={hour}
+                          className={`py-2 pr-4 ${skillColor(score.skill[hour - 1])}`}
+                          title={`Model ${formatSkillRmse(score.modelRmse[hour - 1])} vs baseline ${formatSkillRmse(score.baselineRmse[hour - 1])} RMSE`}
+                        >
+                          {formatSkill(score.skill[hour - 1])}
+                        </td>
+                      ))}
+                      <td className={`py-2 ${skillColor(overallSkill(score))}`}>
+                        {formatSkill(overallSkill(score))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+          <ExpandableDescription title="Understanding Skill Scores">
+            <div className="space-y-2">
+              <p><strong>What it shows:</strong> 1 − RMSE of the model ÷ RMSE of a simple forecaster, on the same walk-forward forecasts. Above zero the model is better; 0% means no better; negative means the simple forecaster wins. Hover a cell for both errors.</p>
+              <p><strong>Persistence:</strong> The last observed hour, held for every lead.</p>
+              <p><strong>Diurnal climatology:</strong> The average for that hour of the day over the training hours.</p>
+              <p><strong>Linear autoregression:</strong> A weighted sum of the previous six hours, fitted on the training hours and rolled forward.</p>
+              <p><strong>Raw Open-Meteo:</strong> The forecast Open-Meteo issued for that hour a day earlier, where the past runs are available.</p>
+            </div>
+          </ExpandableDescription>
+        </div>
+      )}
+
       {/* Prediction Accuracy Scatter Plot */}
       {scatterData.length > 0 && (
         <div className="bg-slate-900 p-6 rounded-xl border border-slate-700">
@@ -277,8 +650,8 @@ export function ModelMetrics({ metrics }: ModelMetricsProps) {
                   type: 'regression' as const
                 }))
               ]}
-              yLabel="Predicted Values"
-              xLabel="Actual Values"
+              yLabel={`Predicted Wind Speed (${windLabel})`}
+              xLabel={`Actual Wind Speed (${windLabel})`}
               historicalLabel="Predictions"
               forecastLabel="Perfect Prediction (y=x)"
               predictionLabel="Best Fit Line"
@@ -325,7 +698,7 @@ export function ModelMetrics({ metrics }: ModelMetricsProps) {
                 value: count / errorStats.errors.length * 100
               }))}
               yLabel="Percentage of Predictions (%)"
-              xLabel="Prediction Error"
+              xLabel={`Prediction Error (${errorLabel})`}
               historicalLabel="Error Distribution"
               id="error-distribution-chart"
               isBarChart={true}
@@ -338,10 +711,10 @@ export function ModelMetrics({ metrics }: ModelMetricsProps) {
               <p><strong>What it shows:</strong> Distribution of prediction errors (actual - predicted)</p>
               <p><strong>Key statistics:</strong></p>
               <ul className="list-disc list-inside ml-2">
-                <li>Mean error: {errorStats.mean.toFixed(2)} (closer to 0 is better)</li>
-                <li>Standard deviation: {errorStats.stdDev.toFixed(2)}</li>
-                <li>68% of errors within ±{errorStats.stdDev.toFixed(2)}</li>
-                <li>95% of errors within ±{(2 * errorStats.stdDev).toFixed(2)}</li>
+                <li>Mean error: {errorStats.mean.toFixed(2)} {errorLabel} (closer to 0 is better)</li>
+                <li>Standard deviation: {errorStats.stdDev.toFixed(2)} {errorLabel}</li>
+                <li>68% of errors within ±{errorStats.stdDev.toFixed(2)} {errorLabel}</li>
+                <li>95% of errors within ±{(2 * errorStats.stdDev).toFixed(2)} {errorLabel}</li>
               </ul>
               <p><strong>Distribution shape:</strong></p>
               <ul className="list-disc list-inside ml-2">
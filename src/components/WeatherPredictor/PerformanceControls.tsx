@@ -1,26 +1,104 @@
 import React from 'react';
-import type { PerformancePreset } from './types';
+import { ARCHITECTURES, describeHyperParameters } from './presets';
+import type {
+  CustomPreset,
+  ForecastMode,
+  ModelArchitecture,
+  PerformancePreset,
+  TimeFeatures,
+  TrainingMode
+} from './types';
 
 interface PerformanceControlsProps {
   performancePreset: PerformancePreset;
   useLightModel: boolean;
   onPresetChange: (preset: PerformancePreset) => void;
+  customPresets: CustomPreset[];
+  // Takes the place of the built-in preset while set
+  customPresetId: string | null;
+  onCustomPresetChange: (id: string) => void;
+  onCustomPresetDelete: (id: string) => void;
+  architecture: ModelArchitecture;
+  onArchitectureChange: (architecture: ModelArchitecture) => void;
+  trainingMode: TrainingMode;
+  onTrainingModeChange: (mode: TrainingMode) => void;
   onModelTypeChange: (useLightModel: boolean) => void;
+  historyDays: number;
+  onHistoryDaysChange: (days: number) => void;
+  tideStationName: string | null;
+  useTideFeature: boolean;
+  onTideFeatureChange: (useTide: boolean) => void;
+  timeFeatures: TimeFeatures;
+  onTimeFeaturesChange: (features: TimeFeatures) => void;
+  forecastMode: ForecastMode;
+  onForecastModeChange: (mode: ForecastMode) => void;
+  compareForecastModes: boolean;
+  onCompareForecastModesChange: (compare: boolean) => void;
+  canCorrectForecast: boolean;
+  useMos: boolean;
+  onMosChange: (useMos: boolean) => void;
 }
 
+const FORECAST_MODES: { value: ForecastMode; label: string }[] = [
+  { value: 'recursive', label: 'Recursive (one hour at a time)' },
+  { value: 'direct', label: 'Direct (all hours at once)' }
+];
+
+const TRAINING_MODES: { value: TrainingMode; label: string }[] = [
+  { value: 'scratch', label: 'Train from scratch' },
+  { value: 'fine-tune', label: 'Fine-tune regional model' }
+];
+
+const TIME_FEATURES: { key: keyof TimeFeatures; label: string }[] = [
+  { key: 'hourOfDay', label: 'Hour of day' },
+  { key: 'dayOfYear', label: 'Day of year' },
+  { key: 'sunElevation', label: 'Sun elevation' }
+];
+
+const HISTORY_OPTIONS = [
+  { days: 5, label: '5 days' },
+  { days: 14, label: '2 weeks' },
+  { days: 30, label: '1 month' },
+  { days: 90, label: '3 months' }
+];
+
 export function PerformanceControls({
   performancePreset,
   useLightModel,
   onPresetChange,
-  onModelTypeChange
+  customPresets,
+  customPresetId,
+  onCustomPresetChange,
+  onCustomPresetDelete,
+  architecture,
+  onArchitectureChange,
+  trainingMode,
+  onTrainingModeChange,
+  onModelTypeChange,
+  historyDays,
+  onHistoryDaysChange,
+  tideStationName,
+  useTideFeature,
+  onTideFeatureChange,
+  timeFeatures,
+  onTimeFeaturesChange,
+  forecastMode,
+  onForecastModeChange,
+  compareForecastModes,
+  onCompareForecastModesChange,
+  canCorrectForecast,
+  useMos,
+  onMosChange
 }: PerformanceControlsProps) {
+  const builtInPreset = customPresetId ? null : performancePreset;
+
   return (
     <div className="space-y-6">
       <div className="grid gap-4 sm:grid-cols-3">
         <button
           onClick={() => onPresetChange('fast')}
           className={`flex flex-col items-start p-4 rounded-xl border transition-all duration-200 ${
-            performancePreset === 'fast'
+            builtInPreset === 'fast'
               ? 'bg-indigo-500/20 border-indigo-500/50 text-indigo-100'
               : 'bg-gray-800/50 border-gray-700/50 text-gray-300 hover:bg-gray-800 hover:border-gray-600'
           }`}
@@ -49,7 +127,7 @@ export function PerformanceControls({
         <button
           onClick={() => onPresetChange('balanced')}
           className={`flex flex-col items-start p-4 rounded-xl border transition-all duration-200 ${
-            performancePreset === 'balanced'
+            builtInPreset === 'balanced'
               ? 'bg-indigo-500/20 border-indigo-500/50 text-indigo-100'
               : 'bg-gray-800/50 border-gray-700/50 text-gray-300 hover:bg-gray-800 hover:border-gray-600'
           }`}
@@ -78,7 +156,7 @@ export function PerformanceControls({
         <button
           onClick={() => onPresetChange('accurate')}
           className={`flex flex-col items-start p-4 rounded-xl border transition-all duration-200 ${
-            performancePreset === 'accurate'
+            builtInPreset === 'accurate'
               ? 'bg-indigo-500/20 border-indigo-500/50 text-indigo-100'
               : 'bg-gray-800/50 border-gray-700/50 text-gray-300 hover:bg-gray-800 hover:border-gray-600'
           }`}
@@ -105,6 +183,37 @@ export function PerformanceControls({
         </button>
       </div>
 
+      {customPresets.length > 0 && (
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm text-gray-300">Searched presets</span>
+          {customPresets.map((preset) => (
+            <div
+              key={preset.id}
+              className={`flex items-center rounded-lg border text-sm ${
+                preset.id === customPresetId
+                  ? 'bg-indigo-500/20 border-indigo-500/50 text-indigo-100'
+                  : 'bg-gray-800/50 border-gray-700/50 text-gray-300 hover:bg-gray-800'
+              }`}
+            >
+              <button
+                onClick={() => onCustomPresetChange(preset.id)}
+                title={describeHyperParameters(preset.params)}
+                className="px-3 py-1"
+              >
+                {preset.name}
+              </button>
+              <button
+                onClick={() => onCustomPresetDelete(preset.id)}
+                aria-label={`Delete preset ${preset.name}`}
+                className="px-2 py-1 border-l border-gray-700/50 text-gray-400 hover:text-red-400"
+              >
+                ×
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
       <div className="flex items-center gap-4">
         <label className="relative inline-flex items-center cursor-pointer">
           <input
@@ -119,6 +228,154 @@ export function PerformanceControls({
           Use lightweight model (faster but less accurate)
         </span>
       </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label htmlFor="architecture" className="text-sm text-gray-300">
+          Architecture
+        </label>
+        <select
+          id="architecture"
+          value={architecture}
+          onChange={(e) => onArchitectureChange(e.target.value as ModelArchitecture)}
+          className="bg-gray-800 border border-gray-700/50 rounded-lg px-2 py-1 text-sm text-gray-100"
+        >
+          {ARCHITECTURES.map((option) => (
+            <option key={option.value} value={option.value}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <span className="text-xs text-gray-500">
+          {ARCHITECTURES.find((option) => option.value === architecture)?.description}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label htmlFor="training-mode" className="text-sm text-gray-300">
+          Training
+        </label>
+        <select
+          id="training-mode"
+          value={trainingMode}
+          onChange={(e) => onTrainingModeChange(e.target.value as TrainingMode)}
+          className="bg-gray-800 border border-gray-700/50 rounded-lg px-2 py-1 text-sm text-gray-100"
+        >
+          {TRAINING_MODES.map((mode) => (
+            <option key={mode.value} value={mode.value}>
+              {mode.label}
+            </option>
+          ))}
+        </select>
+        <span className="text-xs text-gray-500">
+          {trainingMode === 'fine-tune'
+            ? 'Adapts a model pretrained once per region on 9 nearby points (up to 90 days each) in a few epochs'
+            : "Learns from this spot's history alone"}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label htmlFor="history-days" className="text-sm text-gray-300">
+          Training history
+        </label>
+        <select
+          id="history-days"
+          value={historyDays}
+          onChange={(e) => onHistoryDaysChange(Number(e.target.value))}
+          className="bg-gray-800 border border-gray-700/50 rounded-lg px-2 py-1 text-sm text-gray-100"
+        >
+          {HISTORY_OPTIONS.map((option) => (
+            <option key={option.days} value={option.days}>
+              {option.label}
+            </option>
+          ))}
+        </select>
+        <span className="text-xs text-gray-500">
+          Longer histories are backfilled from the Open-Meteo archive
+        </span>
+      </div>
+
+      <div className="flex items-center gap-4">
+        <label className="relative inline-flex items-center cursor-pointer">
+          <input
+            type="checkbox"
+            checked={useTideFeature && trainingMode !== 'fine-tune'}
+            disabled={!tideStationName || trainingMode === 'fine-tune'}
+            onChange={(e) => onTideFeatureChange(e.target.checked)}
+            className="sr-only peer"
+          />
+          <div className="w-11 h-6 bg-gray-700 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-indigo-500 peer-disabled:opacity-50"></div>
+        </label>
+        <span className="text-sm text-gray-300">
+          {!tideStationName
+            ? 'Use tide height as a model input (no tide station near this spot)'
+            : trainingMode === 'fine-tune'
+              ? 'Use tide height as a model input (not with a regional model)'
+              : `Use tide height as a model input (${tideStationName})`}
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <span className="text-sm text-gray-300">Time inputs</span>
+        {TIME_FEATURES.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-2 text-sm text-gray-300">
+            <input
+              type="checkbox"
+              checked={timeFeatures[key]}
+              onChange={(e) => onTimeFeaturesChange({ ...timeFeatures, [key]: e.target.checked })}
+              className="rounded border-gray-600 bg-gray-800 text-indigo-500"
+            />
+            {label}
+          </label>
+        ))}
+        <span className="text-xs text-gray-500">
+          Lets the model learn daily cycles such as the afternoon sea breeze
+        </span>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4">
+        <label htmlFor="forecast-mode" className="text-sm text-gray-300">
+          Forecast mode
+        </label>
+        <select
+          id="forecast-mode"
+          value={forecastMode}
+          onChange={(e) => onForecastModeChange(e.target.value as ForecastMode)}
+          className="bg-gray-800 border border-gray-700/50 rounded-lg px-2 py-1 text-sm text-gray-100"
+        >
+          {FORECAST_MODES.map((mode) => (
+            <option key={mode.value} value={mode.value}>
+              {mode.label}
+            </option>
+          ))}
+        </select>
+        <label className="flex items-center gap-2 text-sm text-gray-300">
+          <input
+            type="checkbox"
+            checked={compareForecastModes}
+            onChange={(e) => onCompareForecastModesChange(e.target.checked)}
+            className="rounded border-gray-600 bg-gray-800 text-indigo-500"
+          />
+          Also train the other mode and compare error by lead time
+        </label>
+      </div>
+
+      <div className="flex items-center gap-4">
+        <label className="relative inline-flex items-center cursor-pointer">
+          <input
+            type="checkbox"
+            checked={useMos}
+            disabled={!canCorrectForecast}
+            onChange={(e) => onMosChange(e.target.checked)}
+            className="sr-only peer"
+          />
+          <div className="w-11 h-6 bg-gray-700 peer-focus:outline-none rounded-full peer peer-checked:after:translate-x-full peer-checked:after:border-white after:content-[''] after:absolute after:top-[2px] after:left-[2px] after:bg-white after:border-gray-300 after:border after:rounded-full after:h-5 after:w-5 after:transition-all peer-checked:bg-indigo-500 peer-disabled:opacity-50"></div>
+        </label>
+        <span className="text-sm text-gray-300">
+          {canCorrectForecast
+            ? 'Correct the Open-Meteo forecast for local bias (learned from past forecasts)'
+            : 'Correct the forecast for local bias (needs past forecasts, not available offline)'}
+        </span>
+      </div>
     </div>
   );
 }
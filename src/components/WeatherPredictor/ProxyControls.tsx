@@ -0,0 +1,42 @@
+import type { ProxyMode, ProxySettings } from '../../lib/proxy';
+
+interface ProxyControlsProps {
+  settings: ProxySettings;
+  onChange: (settings: ProxySettings) => void;
+}
+
+const MODES: { value: ProxyMode; label: string; devOnly?: boolean }[] = [
+  { value: 'direct', label: 'Direct' },
+  { value: 'custom', label: 'Custom proxy' },
+  { value: 'dev', label: 'Dev server proxy', devOnly: true }
+];
+
+export function ProxyControls({ settings, onChange }: ProxyControlsProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm text-gray-300">
+      <label htmlFor="proxy-mode">Network:</label>
+      <select
+        id="proxy-mode"
+        value={settings.mode}
+        onChange={(e) => onChange({ ...settings, mode: e.target.value as ProxyMode })}
+        className="bg-gray-800 border border-gray-700/50 rounded-lg px-2 py-1 text-gray-100"
+      >
+        {MODES.filter((m) => !m.devOnly || import.meta.env.DEV).map((m) => (
+          <option key={m.value} value={m.value}>
+            {m.label}
+          </option>
+        ))}
+      </select>
+      {settings.mode === 'custom' && (
+        <input
+          type="url"
+          value={settings.customUrl}
+          onChange={(e) => onChange({ ...settings, customUrl: e.target.value })}
+          placeholder="https://proxy.example.com/?url={url}"
+          className="flex-1 min-w-[16rem] bg-gray-800 border border-gray-700/50 rounded-lg px-2 py-1 text-gray-100 placeholder-gray-500"
+        />
+      )}
+      <span className="text-xs text-gray-500">Falls back to a direct request if the proxy fails</span>
+    </div>
+  );
+}
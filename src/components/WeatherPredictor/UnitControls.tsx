@@ -0,0 +1,40 @@
+import { HEIGHT_UNITS, WIND_UNITS } from '../../lib/units';
+import type { HeightUnit, UnitPreferences, WindUnit } from '../../lib/units';
+
+interface UnitControlsProps {
+  units: UnitPreferences;
+  onChange: (units: UnitPreferences) => void;
+}
+
+export function UnitControls({ units, onChange }: UnitControlsProps) {
+  return (
+    <div className="flex flex-wrap items-center gap-3 text-sm text-gray-300">
+      <label htmlFor="wind-unit">Wind:</label>
+      <select
+        id="wind-unit"
+        value={units.wind}
+        onChange={(e) => onChange({ ...units, wind: e.target.value as WindUnit })}
+        className="bg-gray-800 border border-gray-700/50 rounded-lg px-2 py-1 text-gray-100"
+      >
+        {WIND_UNITS.map((u) => (
+          <option key={u.value} value={u.value}>
+            {u.label}
+          </option>
+        ))}
+      </select>
+      <label htmlFor="height-unit">Waves and tide:</label>
+      <select
+        id="height-unit"
+        value={units.height}
+        onChange={(e) => onChange({ ...units, height: e.target.value as HeightUnit })}
+        className="bg-gray-800 border border-gray-700/50 rounded-lg px-2 py-1 text-gray-100"
+      >
+        {HEIGHT_UNITS.map((u) => (
+          <option key={u.value} value={u.value}>
+            {u.label}
+          </option>
+        ))}
+      </select>
+    </div>
+  );
+}
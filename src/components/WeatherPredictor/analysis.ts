@@ -0,0 +1,608 @@
+import {
+  fetchWeatherHistory,
+  fetchPreviousForecasts,
+  defaultWeatherProvider
+} from '../../lib/weather';
+import { createFixtureProvider } from '../../lib/providers/fixture';
+import type { WeatherProvider } from '../../lib/providers/types';
+import { addTideHeights, predictTideHeight } from '../../lib/tides';
+import { runDataQuality } from '../../lib/dataQuality';
+import {
+  isModelReusable,
+  loadBaseModel,
+  loadSpotModel,
+  readBaseModel,
+  readSpotModel,
+  regionCentre,
+  saveBaseModel,
+  saveSpotModel,
+  updateSpotModel
+} from '../../lib/modelStore';
+import type { BaseModelSettings, ModelSettings } from '../../lib/modelStore';
+import {
+  trainModel,
+  trainBaseModel,
+  predictNextHours,
+  predictUncertainty,
+  calculateR2Score,
+  hasWaveData,
+  updateModel
+} from './model';
+import type { OnlineUpdate, RegionalHistory, TrainedModel } from './model';
+import { MOS_LEAD_DAYS, buildMosPairs, correctForecast } from './mos';
+import { scoreBaselines } from './baselines';
+import { scoreVariables, toForecastPairs, toTimeSeries } from './metrics';
+import { resolveHyperParameters, usesLightModel } from './presets';
+import { searchHyperParameters } from './search';
+import type { SearchProgress, SearchResult } from './search';
+import type { MosSummary } from './mos';
+import type {
+  WeatherData,
+  PredictionChunk,
+  TrainingProgress,
+  ModelMetricsType,
+  ModelConfig,
+  ForecastMode
+} from './types';
+import type {
+  AnalysisData,
+  AnalysisRequest,
+  AnalysisResult,
+  AnalysisSource,
+  SearchRequest
+} from './analysisProtocol';
+
+// The fetch → train → predict pipeline behind the analysis worker. Kept free of any
+// worker plumbing so it reads top to bottom; cancellation comes in through `signal`.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Points whose history pretrains a region's base model: a 3×3 grid across the cell, in
+// degrees from its centre
+const REGION_POINT_OFFSETS: [number, number][] = [-0.35, 0, 0.35].flatMap((dLat) =>
+  [-0.35, 0, 0.35].map((dLon): [number, number] => [dLat, dLon])
+);
+// Days of history per point when the provider has an archive to backfill from; otherwise
+// the spot's own history length
+const REGION_HISTORY_DAYS = 90;
+// With that much more data per epoch, pretraining needs fewer passes than a spot model
+const REGION_MAX_EPOCHS = 20;
+
+export interface AnalysisCallbacks {
+  onProgress: (progress: TrainingProgress) => void;
+  onData: (data: AnalysisData) => void;
+}
+
+export function resolveProvider(source: AnalysisSource): WeatherProvider {
+  return source.kind === 'recording'
+    ? createFixtureProvider(source.recording)
+    : defaultWeatherProvider;
+}
+
+const calculateErrorDistribution = (errors: number[], binSize: number = 0.5) => {
+  const absErrors = errors.map(Math.abs);
+  const maxError = Math.ceil(Math.max(...absErrors));
+  const numBins = Math.ceil(maxError / binSize);
+  const distribution = new Array(numBins).fill(0);
+
+  errors.forEach((error) => {
+    const absError = Math.abs(error);
+    const binIndex = Math.min(Math.floor(absError / binSize), numBins - 1);
+    distribution[binIndex]++;
+  });
+
+  const total = errors.length;
+  return distribution.map((count) => (count / total) * 100);
+};
+
+/**
+ * Fetch the spot's history and forecast, clean it and add tide heights, split at now.
+ */
+async function loadSpotData(
+  { lat, lon, historyDays, tideStation }: SearchRequest,
+  provider: WeatherProvider,
+  onProgress: (progress: TrainingProgress) => void,
+  signal: AbortSignal
+) {
+  const data = await fetchWeatherHistory(
+    lat,
+    lon,
+    historyDays,
+    provider,
+    (chunksDone, totalChunks) =>
+      onProgress({
+        currentEpoch: 0,
+        totalEpochs: 0,
+        loss: 0,
+        stage: 'initializing',
+        status: `Backfilling history (${chunksDone}/${totalChunks})...`
+      })
+  );
+  signal.throwIfAborted();
+
+  const now = Date.now();
+  const { data: cleaned, report } = runDataQuality(data);
+
+  const withTides = addTideHeights(cleaned, tideStation);
+  const sortedHistorical = withTides
+    .filter((d) => d.timestamp <= now)
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const sortedForecast = withTides
+    .filter((d) => d.timestamp > now)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  return { now, sortedHistorical, sortedForecast, report };
+}
+
+/**
+ * The region's base model for `config`, pretrained on first use from the history of points
+ * across the spot's grid cell and stored for every later spot in it. Where the provider has
+ * an archive, each point contributes a longer history than the spot's own. Null when there
+ * is no regional history to train on; the run then starts from scratch.
+ */
+async function prepareBaseModel(
+  lat: number,
+  lon: number,
+  historyDays: number,
+  config: ModelConfig,
+  settings: BaseModelSettings,
+  provider: WeatherProvider,
+  onProgress: (progress: TrainingProgress) => void,
+  signal: AbortSignal
+): Promise<{ model: TrainedModel; points: number } | null> {
+  const saved = await readBaseModel(lat, lon, settings).catch(() => undefined);
+  if (saved) {
+    try {
+      return { model: await loadBaseModel(saved), points: saved.points };
+    } catch (err) {
+      console.warn('Saved base model could not be loaded, pretraining again:', err);
+    }
+  }
+
+  // Other points' history goes through the same cache as the spot's own
+  const regionDays =
+    provider.capabilities.maxArchiveDays > 0
+      ? Math.max(historyDays, Math.min(REGION_HISTORY_DAYS, provider.capabilities.maxArchiveDays))
+      : historyDays;
+  const centre = regionCentre(lat, lon);
+  const now = Date.now();
+  const histories: RegionalHistory[] = [];
+  for (const [i, [dLat, dLon]] of REGION_POINT_OFFSETS.entries()) {
+    signal.throwIfAborted();
+    onProgress({
+      currentEpoch: 0,
+      totalEpochs: 0,
+      loss: 0,
+      stage: 'initializing',
+      status: `Fetching regional history (${i + 1}/${REGION_POINT_OFFSETS.length})...`
+    });
+    const location = { lat: centre.lat + dLat, lon: centre.lon + dLon };
+    try {
+      const data = await fetchWeatherHistory(location.lat, location.lon, regionDays, provider);
+      const { data: cleaned } = runDataQuality(data);
+      histories.push({
+        location,
+        data: cleaned
+          .filter((d) => d.timestamp <= now)
+          .sort((a, b) => a.timestamp - b.timestamp)
+      });
+    } catch (err) {
+      if (signal.aborted) throw err;
+      // A point can fail on its own; the others still make a base model
+      console.warn('Regional history unavailable for', location, err);
+    }
+  }
+  if (histories.length === 0) return null;
+
+  const model = await trainBaseModel(
+    histories,
+    {
+      ...config,
+      historyHours: regionDays * 24,
+      epochs: Math.min(config.epochs, REGION_MAX_EPOCHS)
+    },
+    settings.useWaves
+  );
+  try {
+    await saveBaseModel(lat, lon, model, settings, histories.length);
+  } catch (err) {
+    console.warn('Could not save base model:', err);
+  }
+  return { model, points: histories.length };
+}
+
+/**
+ * Fetch and clean the spot's history, train (or reload) a model, forecast the next hours
+ * and optionally bias-correct the NWP forecast. Throws the signal's reason once `signal`
+ * is aborted; every model created along the way is disposed before that happens.
+ */
+export async function runAnalysis(
+  request: AnalysisRequest,
+  { onProgress, onData }: AnalysisCallbacks,
+  signal: AbortSignal
+): Promise<AnalysisResult> {
+  const {
+    lat,
+    lon,
+    historyDays,
+    performancePreset,
+    forecastMode,
+    compareForecastModes,
+    tideStation,
+    useMos
+  } = request;
+  const provider = resolveProvider(request.source);
+  const hasPreviousForecasts =
+    !!provider.fetchPreviousForecasts && provider.capabilities.maxPreviousForecastDays > 0;
+
+  onProgress({ currentEpoch: 0, totalEpochs: 0, loss: 0, stage: 'initializing' });
+
+  const { now, sortedHistorical, sortedForecast, report } = await loadSpotData(
+    request,
+    provider,
+    onProgress,
+    signal
+  );
+
+  onData({ historical: sortedHistorical, forecast: sortedForecast, report });
+
+  // Determine model configuration based on performance preset
+  const { customPreset } = request;
+  const hyperParameters = resolveHyperParameters(performancePreset, customPreset);
+  // Recordings hold the spot alone, replayed for any position asked for, so there is no
+  // region to pretrain on. Base models span points up to a grid cell apart, which one tide
+  // station can't speak for, so fine-tuned models go without the tide.
+  const fineTune = request.trainingMode === 'fine-tune' && !provider.capabilities.offline;
+
+  const trainingConfig: ModelConfig = {
+    ...hyperParameters,
+    predictionSteps: 24,
+    performancePreset: performancePreset,
+    architecture: request.architecture,
+    useLightModel: usesLightModel(performancePreset, customPreset),
+    historyHours: historyDays * 24,
+    tideStation: request.useTideFeature && !fineTune ? tideStation : null,
+    forecastMode,
+    timeFeatures: request.timeFeatures,
+    location: { lat, lon },
+    signal,
+    callbacks: { onProgress }
+  };
+
+  const modelSettings: ModelSettings = {
+    performancePreset,
+    customPresetName: customPreset?.name ?? null,
+    architecture: request.architecture,
+    useLightModel: trainingConfig.useLightModel,
+    ...hyperParameters,
+    predictionSteps: trainingConfig.predictionSteps,
+    forecastMode,
+    historyDays,
+    tideStationId: trainingConfig.tideStation?.id ?? null,
+    timeFeatures: request.timeFeatures,
+    trainingMode: fineTune ? 'fine-tune' : 'scratch'
+  };
+
+  // Train from scratch, or fine-tune the regional base model for these settings
+  const train = async (config: ModelConfig) => {
+    const base = fineTune
+      ? await prepareBaseModel(
+          lat,
+          lon,
+          historyDays,
+          config,
+          {
+            architecture: modelSettings.architecture,
+            useLightModel: modelSettings.useLightModel,
+            timeSteps: modelSettings.timeSteps,
+            units: modelSettings.units,
+            dropout: modelSettings.dropout,
+            predictionSteps: modelSettings.predictionSteps,
+            forecastMode: config.forecastMode ?? forecastMode,
+            timeFeatures: modelSettings.timeFeatures,
+            useWaves: hasWaveData(sortedHistorical.slice(-historyDays * 24)),
+            providerId: provider.id
+          },
+          provider,
+          onProgress,
+          signal
+        )
+      : null;
+    try {
+      return { ...(await trainModel(sortedHistorical, config, base?.model ?? null)), base };
+    } finally {
+      base?.model.model.dispose();
+    }
+  };
+
+  const trainAndScore = async () => {
+    // Train model with progress tracking
+    const {
+      model: newModel,
+      trainingLoss,
+      validationLoss,
+      actuals,
+      predictions,
+      leadTimeRmse,
+      folds,
+      validationPairs,
+      validationForecasts,
+      inputImportance,
+      base
+    } = await train(trainingConfig);
+
+    // Scoring can still fail; the model is only handed on once it succeeds
+    try {
+      // Optionally train the other mode on the same data, only to score it
+      const leadTimeComparison: ModelMetricsType['leadTimeRmse'] = [
+        { mode: forecastMode, rmse: leadTimeRmse }
+      ];
+      if (compareForecastModes) {
+        const otherMode: ForecastMode = forecastMode === 'direct' ? 'recursive' : 'direct';
+        const comparison = await train({
+          ...trainingConfig,
+          forecastMode: otherMode,
+          callbacks: {
+            onProgress: (progress) =>
+              onProgress({
+                ...progress,
+                stage: 'training',
+                status: `Training ${otherMode} model for comparison`
+              })
+          }
+        });
+        comparison.model.model.dispose();
+        leadTimeComparison.push({ mode: otherMode, rmse: comparison.leadTimeRmse });
+      }
+
+      // The forecast as issued a day ahead is a baseline too, when the provider keeps them
+      const nwpForecast = hasPreviousForecasts
+        ? await fetchPreviousForecasts(lat, lon, historyDays, 1, provider).catch((err) => {
+            console.warn('Past forecasts unavailable for baselines:', err);
+            return [];
+          })
+        : [];
+      const skillScores = scoreBaselines(sortedHistorical, validationForecasts, nwpForecast);
+
+      // Calculate errors and metrics for each prediction type
+      const windSpeedErrors = actuals.map((actual, i) => predictions[i] - actual);
+      const rmse = Math.sqrt(windSpeedErrors.reduce((sum, err) => sum + err * err, 0) / windSpeedErrors.length);
+      const mae = windSpeedErrors.reduce((sum, err) => sum + Math.abs(err), 0) / windSpeedErrors.length;
+      const r2Score = calculateR2Score(actuals, predictions);
+
+      const variableMetrics = scoreVariables(validationPairs);
+      const directionRmse =
+        variableMetrics.find(({ variable }) => variable === 'windDirection')?.rmse ?? NaN;
+
+      const modelMetrics: ModelMetricsType = {
+        validationStrategy: base
+          ? `Walk-forward, ${folds.length} folds, fine-tuned from a regional model ` +
+            `pretrained on ${base.points} points`
+          : `Walk-forward, ${folds.length} folds`,
+        rmse,
+        mae,
+        r2Score,
+        confidenceIntervals: {
+          wind: 1.96 * rmse,
+          direction: 1.96 * directionRmse
+        },
+        sampleSize: actuals.length,
+        timestamp: new Date().toISOString(),
+        trainingLoss,
+        validationLoss,
+        errorDistribution: calculateErrorDistribution(windSpeedErrors, 0.5), // 0.5 m/s bins for wind speed
+        actuals,
+        predictions,
+        windSpeedData: toTimeSeries(validationPairs, 'windSpeed'),
+        waveHeightData: toTimeSeries(validationPairs, 'waveHeight'),
+        windDirectionData: toTimeSeries(validationPairs, 'windDirection'),
+        leadTimeRmse: leadTimeComparison,
+        folds,
+        skillScores,
+        variableMetrics,
+        inputImportance: inputImportance ?? undefined,
+        forecastPairs: toForecastPairs(sortedHistorical, validationForecasts)
+      };
+
+      return { model: newModel, metrics: modelMetrics };
+    } catch (err) {
+      newModel.model.dispose();
+      throw err;
+    }
+  };
+
+  // Reuse this spot's saved model when it is recent and trained the same way. Saved models
+  // are keyed by position alone, so recordings neither reuse nor store them; their
+  // replayed hours would otherwise be mixed with live data for the same spot.
+  const storesModels = !provider.capabilities.offline;
+  const saved =
+    request.forceRetrain || !storesModels
+      ? undefined
+      : await readSpotModel(lat, lon).catch(() => undefined);
+
+  let loaded: TrainedModel | null = null;
+  if (saved && isModelReusable(saved, modelSettings)) {
+    try {
+      loaded = await loadSpotModel(saved);
+    } catch (err) {
+      console.warn('Saved model could not be loaded, retraining:', err);
+    }
+  }
+
+  // Bring a reused model up to date with the hours observed since it last trained
+  const dataEnd = sortedHistorical[sortedHistorical.length - 1]?.timestamp ?? now;
+  let onlineUpdate: OnlineUpdate | null = null;
+  if (loaded && saved) {
+    onProgress({
+      currentEpoch: 0,
+      totalEpochs: 0,
+      loss: 0,
+      stage: 'initializing',
+      status: 'Updating saved model with new hours...'
+    });
+    try {
+      onlineUpdate = await updateModel(
+        loaded,
+        sortedHistorical,
+        saved.dataEnd ?? saved.trainedAt,
+        trainingConfig,
+        saved.metrics?.rmse ?? null
+      );
+    } catch (err) {
+      if (signal.aborted) {
+        loaded.model.dispose();
+        throw err;
+      }
+      console.warn('Incremental update failed, using the saved model as it was:', err);
+    }
+    if (onlineUpdate?.retrainReason) {
+      console.log('Retraining saved model:', onlineUpdate.retrainReason);
+      loaded.model.dispose();
+      loaded = null;
+    }
+  }
+
+  let newModel: TrainedModel;
+  let metrics: ModelMetricsType | null;
+  let modelSaved = false;
+  if (loaded && saved) {
+    newModel = loaded;
+    metrics = saved.metrics;
+  } else {
+    const trained = await trainAndScore();
+    newModel = trained.model;
+    metrics = trained.metrics;
+  }
+
+  let predictionChunks: PredictionChunk[];
+  try {
+    signal.throwIfAborted();
+    if (!loaded && storesModels) {
+      try {
+        await saveSpotModel(lat, lon, newModel, modelSettings, metrics, dataEnd);
+        modelSaved = true;
+      } catch (err) {
+        console.warn('Could not save trained model:', err);
+      }
+    } else if (saved && onlineUpdate && onlineUpdate.windows > 0) {
+      try {
+        await updateSpotModel(saved, newModel, dataEnd);
+        modelSaved = true;
+      } catch (err) {
+        console.warn('Could not save updated model:', err);
+      }
+    }
+
+    onProgress({ currentEpoch: 0, totalEpochs: 0, loss: 0, stage: 'predicting' });
+
+    const nextHours = await predictNextHours(newModel, sortedHistorical);
+    signal.throwIfAborted();
+    const { quantiles, confidence } = await predictUncertainty(newModel, sortedHistorical);
+
+    // Convert WeatherData predictions to PredictionChunk format
+    predictionChunks = nextHours.map((pred: WeatherData, index: number) => {
+      const startTime = now + index * HOUR_MS;
+      return {
+        startTime,
+        endTime: startTime + HOUR_MS,
+        windSpeed: pred.windSpeed,
+        windGusts: pred.windGusts,
+        windDirection: pred.windDirection,
+        waveHeight: pred.waveHeight,
+        wavePeriod: pred.wavePeriod,
+        swellDirection: pred.swellDirection,
+        temperature: pred.temperature,
+        precipitation: pred.precipitation,
+        pressure: pred.pressure,
+        cloudCover: pred.cloudCover,
+        windSpeed80m: pred.windSpeed80m,
+        windDirection80m: pred.windDirection80m,
+        tideHeight: tideStation ? predictTideHeight(tideStation, startTime) : undefined,
+        confidence: confidence[index],
+        quantiles: quantiles[index]
+      };
+    });
+  } finally {
+    // Kept in the model store, so nothing holds on to it after predicting
+    newModel.model.dispose();
+  }
+
+  // Bias-correct the raw forecast. Optional, so failures only leave a note.
+  let correctedForecast: WeatherData[] = [];
+  let mosSummary: MosSummary | null = null;
+  let mosError: string | null = null;
+  if (useMos && hasPreviousForecasts && sortedForecast.length > 0) {
+    signal.throwIfAborted();
+    onProgress({
+      currentEpoch: 0,
+      totalEpochs: 0,
+      loss: 0,
+      stage: 'predicting',
+      status: 'Learning forecast corrections...'
+    });
+    try {
+      const previousForecasts = await Promise.all(
+        MOS_LEAD_DAYS.map(async (leadDays) => ({
+          leadDays,
+          data: await fetchPreviousForecasts(lat, lon, historyDays, leadDays, provider)
+        }))
+      );
+      signal.throwIfAborted();
+      const pairs = buildMosPairs(previousForecasts, sortedHistorical);
+      const { corrected, summary } = await correctForecast(pairs, sortedForecast, now);
+      correctedForecast = corrected;
+      mosSummary = summary;
+    } catch (err) {
+      if (signal.aborted) throw err;
+      console.warn('Forecast correction failed:', err);
+      mosError = err instanceof Error ? err.message : 'Forecast correction failed';
+    }
+  }
+
+  signal.throwIfAborted();
+  return {
+    predictions: predictionChunks,
+    metrics,
+    usingSavedModel: !!loaded,
+    modelSaved,
+    onlineUpdate,
+    correctedForecast,
+    mosSummary,
+    mosError
+  };
+}
+
+/**
+ * Fetch the spot's history the same way as runAnalysis and search it for the best
+ * hyperparameters under the request's forecast mode and tide setting.
+ */
+export async function runSearch(
+  request: SearchRequest,
+  onProgress: (progress: SearchProgress) => void,
+  signal: AbortSignal
+): Promise<SearchResult> {
+  const { lat, lon, historyDays, tideStation, forecastMode, timeFeatures, architecture } =
+    request;
+  const { sortedHistorical } = await loadSpotData(
+    request,
+    resolveProvider(request.source),
+    (training) =>
+      onProgress({ rung: 0, rungs: 0, rungEpochs: 0, candidates: [], evaluating: null, training }),
+    signal
+  );
+
+  return searchHyperParameters(
+    sortedHistorical,
+    {
+      predictionSteps: 24,
+      historyHours: historyDays * 24,
+      tideStation: request.useTideFeature ? tideStation : null,
+      forecastMode,
+      timeFeatures,
+      location: { lat, lon },
+      architecture
+    },
+    onProgress,
+    signal
+  );
+}
@@ -0,0 +1,95 @@
+import { applyProxySettings } from '../../lib/proxy';
+import { getCacheStats, subscribeCacheStats } from '../../lib/weatherCache';
+import type { CacheStats } from '../../lib/weatherCache';
+import { runAnalysis, runSearch } from './analysis';
+import { classifyRideability } from './rideability';
+import type { AnalysisCommand, AnalysisEvent } from './analysisProtocol';
+
+// Runs the analysis pipeline off the main thread so the map stays responsive while training
+
+const post = (event: AnalysisEvent) => self.postMessage(event);
+
+const controllers = new Map<number, AbortController>();
+
+// One run or search at a time, so a cancelled run has released its tensors before the next one trains
+let queue: Promise<void> = Promise.resolve();
+
+// Rideability fits are small and only the latest one matters, so they take their own lane
+// instead of waiting out a search, and each new one aborts any still pending
+let rideabilityQueue: Promise<void> = Promise.resolve();
+const rideabilityRuns = new Set<number>();
+
+// Forward cache activity as increments; the UI adds them to its own counters
+let lastStats = getCacheStats();
+subscribeCacheStats((stats) => {
+  const update: Partial<CacheStats> = {};
+  (Object.keys(stats) as (keyof CacheStats)[]).forEach((field) => {
+    update[field] = stats[field] - lastStats[field];
+  });
+  lastStats = stats;
+  post({ type: 'cacheStats', update });
+});
+
+async function run(command: Exclude<AnalysisCommand, { type: 'cancel' }>, signal: AbortSignal) {
+  const { runId } = command;
+  try {
+    signal.throwIfAborted();
+    if (command.type === 'rideability') {
+      const { pairs, predictions, settings } = command.request;
+      const result = await classifyRideability(pairs, predictions, settings, signal);
+      post({ type: 'rideabilityResult', runId, result });
+      return;
+    }
+    applyProxySettings(command.request.proxySettings);
+    if (command.type === 'search') {
+      const result = await runSearch(
+        command.request,
+        (progress) => post({ type: 'searchProgress', runId, progress }),
+        signal
+      );
+      post({ type: 'searchResult', runId, result });
+      return;
+    }
+    const result = await runAnalysis(
+      command.request,
+      {
+        onProgress: (progress) => post({ type: 'progress', runId, progress }),
+        onData: (data) => post({ type: 'data', runId, data })
+      },
+      signal
+    );
+    post({ type: 'result', runId, result });
+  } catch (err) {
+    if (signal.aborted) {
+      post({ type: 'cancelled', runId });
+    } else {
+      console.error('Analysis error:', err);
+      post({
+        type: 'error',
+        runId,
+        message: err instanceof Error ? err.message : 'Unknown error during analysis'
+      });
+    }
+  } finally {
+    controllers.delete(runId);
+    rideabilityRuns.delete(runId);
+  }
+}
+
+self.addEventListener('message', (event: MessageEvent<AnalysisCommand>) => {
+  const command = event.data;
+  if (command.type === 'cancel') {
+    controllers.get(command.runId)?.abort();
+    return;
+  }
+
+  const controller = new AbortController();
+  controllers.set(command.runId, controller);
+  if (command.type === 'rideability') {
+    rideabilityRuns.forEach((runId) => controllers.get(runId)?.abort());
+    rideabilityRuns.add(command.runId);
+    rideabilityQueue = rideabilityQueue.then(() => run(command, controller.signal));
+    return;
+  }
+  queue = queue.then(() => run(command, controller.signal));
+});
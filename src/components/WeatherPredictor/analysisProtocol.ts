@@ -0,0 +1,112 @@
+import type { DataQualityReport } from '../../lib/dataQuality';
+import type { ProxySettings } from '../../lib/proxy';
+import type { WeatherRecording } from '../../lib/providers/types';
+import type { CacheStats } from '../../lib/weatherCache';
+import type { TideStation } from '../../lib/tides';
+import type { OnlineUpdate } from './model';
+import type { MosSummary } from './mos';
+import type { RideabilityResult, RideabilitySettings } from './rideability';
+import type { SearchProgress, SearchResult } from './search';
+import type {
+  CustomPreset,
+  ForecastMode,
+  ForecastPair,
+  ModelArchitecture,
+  ModelMetricsType,
+  PerformancePreset,
+  PredictionChunk,
+  TimeFeatures,
+  TrainingMode,
+  TrainingProgress,
+  WeatherData
+} from './types';
+
+// Messages between the UI and the analysis worker. Everything here must survive
+// structured cloning, so providers are described rather than passed.
+
+// Live data from the default provider, or a recording replayed through the fixture provider
+export type AnalysisSource = { kind: 'live' } | { kind: 'recording'; recording: WeatherRecording };
+
+export interface AnalysisRequest {
+  lat: number;
+  lon: number;
+  source: AnalysisSource;
+  // The worker has no localStorage, so the UI passes its current proxy choice along
+  proxySettings: ProxySettings;
+  historyDays: number;
+  performancePreset: PerformancePreset;
+  // Overrides the built-in preset's hyperparameters when set
+  customPreset: CustomPreset | null;
+  architecture: ModelArchitecture;
+  forecastMode: ForecastMode;
+  compareForecastModes: boolean;
+  trainingMode: TrainingMode;
+  // Nearest station; its tide heights are added to the data either way
+  tideStation: TideStation | null;
+  useTideFeature: boolean;
+  timeFeatures: TimeFeatures;
+  useMos: boolean;
+  // Ignore any saved model for this spot and train a new one
+  forceRetrain: boolean;
+}
+
+// A hyperparameter search scores candidates on the same data and settings a run would use
+export type SearchRequest = Pick<
+  AnalysisRequest,
+  | 'lat'
+  | 'lon'
+  | 'source'
+  | 'proxySettings'
+  | 'historyDays'
+  | 'forecastMode'
+  | 'tideStation'
+  | 'useTideFeature'
+  | 'timeFeatures'
+  | 'architecture'
+>;
+
+// Rideability is learned from a finished run's validation forecasts, again whenever the
+// rider changes what counts as rideable
+export interface RideabilityRequest {
+  pairs: ForecastPair[];
+  predictions: PredictionChunk[];
+  settings: RideabilitySettings;
+}
+
+// Cleaned series, sent as soon as it is ready so the tables can show before training ends
+export interface AnalysisData {
+  historical: WeatherData[];
+  forecast: WeatherData[];
+  report: DataQualityReport;
+}
+
+export interface AnalysisResult {
+  predictions: PredictionChunk[];
+  metrics: ModelMetricsType | null;
+  usingSavedModel: boolean;
+  modelSaved: boolean;
+  // How a reused model was brought up to date, or why it was retrained instead
+  onlineUpdate: OnlineUpdate | null;
+  correctedForecast: WeatherData[];
+  mosSummary: MosSummary | null;
+  mosError: string | null;
+}
+
+export type AnalysisCommand =
+  | { type: 'start'; runId: number; request: AnalysisRequest }
+  | { type: 'search'; runId: number; request: SearchRequest }
+  | { type: 'rideability'; runId: number; request: RideabilityRequest }
+  | { type: 'cancel'; runId: number };
+
+export type AnalysisEvent =
+  | { type: 'progress'; runId: number; progress: TrainingProgress }
+  | { type: 'data'; runId: number; data: AnalysisData }
+  | { type: 'result'; runId: number; result: AnalysisResult }
+  | { type: 'searchProgress'; runId: number; progress: SearchProgress }
+  | { type: 'searchResult'; runId: number; result: SearchResult }
+  | { type: 'rideabilityResult'; runId: number; result: RideabilityResult }
+  | { type: 'error'; runId: number; message: string }
+  // Sent once a cancelled run has stopped and released its tensors
+  | { type: 'cancelled'; runId: number }
+  // Cache activity inside the worker, to fold into the UI's own counters
+  | { type: 'cacheStats'; update: Partial<CacheStats> };
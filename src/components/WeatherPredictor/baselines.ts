@@ -0,0 +1,265 @@
+import type { ValidationForecast } from './model';
+import type { BaselineId, SkillScore, SkillVariable, WeatherData } from './types';
+
+// Trivial forecasters the model has to beat. Each is scored on exactly the forecasts the
+// walk-forward folds made, and fitted only on the hours before the fold it is compared in.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const BASELINE_LABELS: { [id in BaselineId]: string } = {
+  persistence: 'Persistence',
+  climatology: 'Diurnal climatology',
+  autoregression: 'Linear autoregression',
+  nwp: 'Raw Open-Meteo'
+};
+
+export const SKILL_VARIABLES: SkillVariable[] = [
+  'windSpeed',
+  'windGusts',
+  'windDirection',
+  'temperature',
+  'pressure'
+];
+
+// Hours of lagged values the autoregression uses
+const AR_ORDER = 6;
+// Keeps the normal equations solvable when a series is nearly constant
+const AR_RIDGE = 1e-6;
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+const fromSinCos = (sin: number, cos: number) =>
+  ((Math.atan2(sin, cos) * (180 / Math.PI)) + 360) % 360;
+
+const valueOf = (d: WeatherData | undefined, variable: SkillVariable): number | undefined => {
+  const value = d?.[variable];
+  return typeof value === 'number' && !isNaN(value) ? value : undefined;
+};
+
+// Directions are averaged and extrapolated through their sin/cos components
+type Component = (d: WeatherData | undefined) => number | undefined;
+
+const componentsOf = (variable: SkillVariable): Component[] => {
+  if (variable !== 'windDirection') return [(d) => valueOf(d, variable)];
+  const direction = (d: WeatherData | undefined) => valueOf(d, 'windDirection');
+  return [
+    (d) => {
+      const degrees = direction(d);
+      return degrees === undefined ? undefined : Math.sin(toRadians(degrees));
+    },
+    (d) => {
+      const degrees = direction(d);
+      return degrees === undefined ? undefined : Math.cos(toRadians(degrees));
+    }
+  ];
+};
+
+const fromComponents = (variable: SkillVariable, values: number[]) =>
+  variable === 'windDirection' ? fromSinCos(values[0], values[1]) : values[0];
+
+// Directions are compared along the shorter arc
+const forecastError = (variable: SkillVariable, predicted: number, actual: number) =>
+  variable === 'windDirection' ? ((predicted - actual + 540) % 360) - 180 : predicted - actual;
+
+// Solve A x = b by Gaussian elimination with partial pivoting
+function solve(A: number[][], b: number[]): number[] | null {
+  const n = b.length;
+  const m = A.map((row, i) => [...row, b[i]]);
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let row = col + 1; row < n; row++) {
+      if (Math.abs(m[row][col]) > Math.abs(m[pivot][col])) pivot = row;
+    }
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+    for (let row = col + 1; row < n; row++) {
+      const factor = m[row][col] / m[col][col];
+      for (let k = col; k <= n; k++) m[row][k] -= factor * m[col][k];
+    }
+  }
+  const x = new Array(n).fill(0);
+  for (let row = n - 1; row >= 0; row--) {
+    let sum = m[row][n];
+    for (let k = row + 1; k < n; k++) sum -= m[row][k] * x[k];
+    x[row] = sum / m[row][row];
+  }
+  return x;
+}
+
+interface ArModel {
+  mean: number;
+  // Coefficient for the value 1..AR_ORDER hours back, in that order
+  coefficients: number[];
+}
+
+/** Least-squares AR(AR_ORDER) fit on the mean-removed series, using contiguous hours only. */
+function fitAutoregression(history: WeatherData[], component: Component): ArModel | null {
+  const values = history.map(component);
+  const defined = values.filter((v): v is number => v !== undefined);
+  if (defined.length === 0) return null;
+  const mean = defined.reduce((sum, v) => sum + v, 0) / defined.length;
+
+  const XtX = Array.from({ length: AR_ORDER }, () => new Array(AR_ORDER).fill(0));
+  const Xty = new Array(AR_ORDER).fill(0);
+  let rows = 0;
+  for (let i = AR_ORDER; i < history.length; i++) {
+    if (history[i].timestamp - history[i - AR_ORDER].timestamp !== AR_ORDER * HOUR_MS) continue;
+    const target = values[i];
+    const lags = Array.from({ length: AR_ORDER }, (_, lag) => values[i - lag - 1]);
+    if (target === undefined || lags.some((v) => v === undefined)) continue;
+
+    const x = (lags as number[]).map((v) => v - mean);
+    for (let r = 0; r < AR_ORDER; r++) {
+      Xty[r] += x[r] * (target - mean);
+      for (let c = 0; c < AR_ORDER; c++) XtX[r][c] += x[r] * x[c];
+    }
+    rows++;
+  }
+  if (rows < 3 * AR_ORDER) return null;
+
+  XtX.forEach((row, i) => (row[i] += AR_RIDGE * rows));
+  const coefficients = solve(XtX, Xty);
+  return coefficients ? { mean, coefficients } : null;
+}
+
+type BaselineForecaster = (
+  variable: SkillVariable,
+  forecast: ValidationForecast
+) => (number | undefined)[];
+
+/**
+ * Skill of the fold models against each baseline, per variable and lead hour. `data` is the
+ * history the folds were built from; `nwpForecast` holds the provider's day-ahead forecasts
+ * for those hours and may be empty, which leaves the NWP baseline out.
+ */
+export function scoreBaselines(
+  data: WeatherData[],
+  forecasts: ValidationForecast[],
+  nwpForecast: WeatherData[]
+): SkillScore[] {
+  if (forecasts.length === 0) return [];
+  const steps = forecasts[0].forecast.length;
+  const byHour = new Map(data.map((d) => [d.timestamp, d]));
+  const nwpByHour = new Map(nwpForecast.map((d) => [d.timestamp, d]));
+
+  // Fits depend only on the fold, so they are shared across its forecasts
+  const fitCache = new Map<string, unknown>();
+  const perFold = <T>(name: string, foldStart: number, fit: () => T): T => {
+    const key = `${name}:${foldStart}`;
+    if (!fitCache.has(key)) fitCache.set(key, fit());
+    return fitCache.get(key) as T;
+  };
+  const historyBefore = (foldStart: number) =>
+    perFold('history', foldStart, () => data.filter((d) => d.timestamp < foldStart));
+
+  // The last hour before the forecast starts, held for every lead
+  const persistence: BaselineForecaster = (variable, { origin }) => {
+    const last = valueOf(byHour.get(origin - HOUR_MS), variable);
+    return new Array(steps).fill(last);
+  };
+
+  // Mean for the hour of day over the fold's training hours
+  const climatology: BaselineForecaster = (variable, { foldStart, forecast }) => {
+    const components = componentsOf(variable);
+    const hourlyMeans = perFold(`climatology-${variable}`, foldStart, () => {
+      const sums = Array.from({ length: 24 }, () => ({
+        totals: new Array(components.length).fill(0),
+        count: 0
+      }));
+      historyBefore(foldStart).forEach((d) => {
+        const values = components.map((component) => component(d));
+        if (values.some((v) => v === undefined)) return;
+        const bucket = sums[new Date(d.timestamp).getUTCHours()];
+        values.forEach((v, i) => (bucket.totals[i] += v as number));
+        bucket.count++;
+      });
+      return sums.map(({ totals, count }) =>
+        count > 0 ? fromComponents(variable, totals.map((t) => t / count)) : undefined
+      );
+    });
+    return forecast.map((d) => hourlyMeans[new Date(d.timestamp).getUTCHours()]);
+  };
+
+  // Fitted per component, then rolled forward from the hours before the origin
+  const autoregression: BaselineForecaster = (variable, { origin, foldStart }) => {
+    const components = componentsOf(variable);
+    const models = perFold(`ar-${variable}`, foldStart, () =>
+      components.map((component) => fitAutoregression(historyBefore(foldStart), component))
+    );
+
+    const paths = components.map((component, c) => {
+      const model = models[c];
+      if (!model) return null;
+      const lags = Array.from({ length: AR_ORDER }, (_, lag) =>
+        component(byHour.get(origin - (lag + 1) * HOUR_MS))
+      );
+      if (lags.some((v) => v === undefined)) return null;
+
+      // Most recent first
+      const window = (lags as number[]).map((v) => v - model.mean);
+      return Array.from({ length: steps }, () => {
+        const next = model.coefficients.reduce((sum, a, i) => sum + a * window[i], 0);
+        window.unshift(next);
+        window.pop();
+        return next + model.mean;
+      });
+    });
+    if (paths.some((path) => path === null)) return new Array(steps).fill(undefined);
+    return Array.from({ length: steps }, (_, step) =>
+      fromComponents(
+        variable,
+        paths.map((path) => (path as number[])[step])
+      )
+    );
+  };
+
+  // What the provider forecast for the hour a day ahead
+  const nwp: BaselineForecaster = (variable, { forecast }) =>
+    forecast.map((d) => valueOf(nwpByHour.get(d.timestamp), variable));
+
+  const baselines: [BaselineId, BaselineForecaster][] = [
+    ['persistence', persistence],
+    ['climatology', climatology],
+    ['autoregression', autoregression],
+    ...(nwpForecast.length > 0 ? [['nwp', nwp] as [BaselineId, BaselineForecaster]] : [])
+  ];
+
+  const rmse = (squares: number[]) =>
+    squares.length ? Math.sqrt(squares.reduce((sum, e) => sum + e, 0) / squares.length) : NaN;
+
+  return baselines.flatMap(([baseline, forecaster]) =>
+    SKILL_VARIABLES.flatMap((variable) => {
+      const modelSquares: number[][] = Array.from({ length: steps }, () => []);
+      const baselineSquares: number[][] = Array.from({ length: steps }, () => []);
+
+      forecasts.forEach((validation) => {
+        const baselineValues = forecaster(variable, validation);
+        validation.forecast.forEach((predicted, step) => {
+          const actual = valueOf(byHour.get(predicted.timestamp), variable);
+          const modelValue = valueOf(predicted, variable);
+          const baselineValue = baselineValues[step];
+          if (actual === undefined || modelValue === undefined || baselineValue === undefined) {
+            return;
+          }
+          modelSquares[step].push(forecastError(variable, modelValue, actual) ** 2);
+          baselineSquares[step].push(forecastError(variable, baselineValue, actual) ** 2);
+        });
+      });
+
+      if (modelSquares.every((squares) => squares.length === 0)) return [];
+      const modelRmse = modelSquares.map(rmse);
+      const baselineRmse = baselineSquares.map(rmse);
+      return [
+        {
+          baseline,
+          variable,
+          modelRmse,
+          baselineRmse,
+          skill: modelRmse.map((m, step) =>
+            baselineRmse[step] > 0 ? 1 - m / baselineRmse[step] : NaN
+          )
+        }
+      ];
+    })
+  );
+}
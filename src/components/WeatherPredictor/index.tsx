@@ -1,244 +1,566 @@
 // src/components/WeatherPredictor/index.tsx
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Map } from '../Map';
 import { WindTable } from '../WindTable';
-import { fetchHistoricalWeather } from '../../lib/weather';
-import { trainModel, predictNextHours, calculateR2Score } from './model';
+import { defaultWeatherProvider } from '../../lib/weather';
 import type {
+  EnsembleMember,
+  WeatherProvider,
+  WeatherRecording
+} from '../../lib/providers/types';
+import {
+  createFixtureProvider,
+  parseRecording,
+  recordWeather
+} from '../../lib/providers/fixture';
+import {
+  clearWeatherCache,
+  countCachedSpots,
+  getCacheStats,
+  recordCacheStats,
+  subscribeCacheStats
+} from '../../lib/weatherCache';
+import { getProxySettings, saveProxySettings } from '../../lib/proxy';
+import { findNearestTideStation } from '../../lib/tides';
+import { TIDE_STATIONS } from '../../lib/tideStations';
+import type { DataQualityReport } from '../../lib/dataQuality';
+import type { ProxySettings } from '../../lib/proxy';
+import { loadUnitPreferences, saveUnitPreferences } from '../../lib/units';
+import type { UnitPreferences } from '../../lib/units';
+import { spotKey } from '../../lib/modelStore';
+import type { SavedModelRecord } from '../../lib/modelStore';
+import type { MosSummary } from './mos';
+import type { AnalysisCommand, AnalysisEvent } from './analysisProtocol';
+import {
+  ARCHITECTURES,
+  deleteCustomPreset,
+  loadCustomPresets,
+  resolveHyperParameters,
+  saveCustomPreset,
+  usesLightModel
+} from './presets';
+import { countModelParameters, hasWaveData } from './model';
+import type { OnlineUpdate } from './model';
+import { loadRideabilitySettings, saveRideabilitySettings } from './rideability';
+import type { RideabilityHour, RideabilitySettings, RideabilitySummary } from './rideability';
+import type { SearchProgress, SearchResult } from './search';
+import type {
+  CustomPreset,
   WeatherData,
   PredictionChunk,
+  ModelArchitecture,
+  TrainingMode,
   PerformancePreset,
+  TimeFeatures,
   TrainingProgress,
-  ModelMetricsType
+  ModelMetricsType,
+  ForecastMode
 } from './types';
 import { PerformanceControls } from './PerformanceControls';
+import { DataSourceControls } from './DataSourceControls';
+import { ProxyControls } from './ProxyControls';
+import { UnitControls } from './UnitControls';
 import { ModelMetrics } from './ModelMetrics';
+import { ModelManager } from './ModelManager';
+import { HyperparameterSearch } from './HyperparameterSearch';
 import { ModelInfo } from '../ModelInfo';
+import { DataQuality } from '../DataQuality';
+import { Explainability } from '../Explainability';
+import { RideabilityStrip } from '../RideabilityStrip';
 import './styles.css';
 
-export function WeatherPredictor() {
+interface WeatherPredictorProps {
+  // Used on the main thread for ensembles and capability checks. The analysis worker
+  // cannot be handed a provider object and fetches live data with the default one.
+  provider?: WeatherProvider;
+}
+
+export function WeatherPredictor({ provider = defaultWeatherProvider }: WeatherPredictorProps) {
+  const [activeProvider, setActiveProvider] = useState<WeatherProvider>(provider);
+  // Replayed by the analysis worker while set
+  const [recording, setRecording] = useState<WeatherRecording | null>(null);
   const [selectedLocation, setSelectedLocation] = useState<{ lat: number; lon: number } | null>(
     null
   );
   const [historicalData, setHistoricalData] = useState<WeatherData[]>([]);
   const [forecastData, setForecastData] = useState<WeatherData[]>([]);
+  const [ensembleMembers, setEnsembleMembers] = useState<EnsembleMember[]>([]);
   const [predictions, setPredictions] = useState<PredictionChunk[]>([]);
   const [error, setError] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [performancePreset, setPerformancePreset] = useState<PerformancePreset>('balanced');
   const [useLightModel, setUseLightModel] = useState(false);
+  const [customPresets, setCustomPresets] = useState<CustomPreset[]>(loadCustomPresets);
+  const [customPresetId, setCustomPresetId] = useState<string | null>(null);
+  const [architecture, setArchitecture] = useState<ModelArchitecture>('lstm');
+  const [trainingMode, setTrainingMode] = useState<TrainingMode>('scratch');
+  const [historyDays, setHistoryDays] = useState(5);
+  const [useTideFeature, setUseTideFeature] = useState(false);
+  const [timeFeatures, setTimeFeatures] = useState<TimeFeatures>({
+    hourOfDay: true,
+    dayOfYear: true,
+    sunElevation: true
+  });
+  const [forecastMode, setForecastMode] = useState<ForecastMode>('recursive');
+  const [compareForecastModes, setCompareForecastModes] = useState(false);
+  const [useMos, setUseMos] = useState(false);
+  const [correctedForecast, setCorrectedForecast] = useState<WeatherData[]>([]);
+  const [mosSummary, setMosSummary] = useState<MosSummary | null>(null);
+  const [mosError, setMosError] = useState<string | null>(null);
   const [progress, setProgress] = useState<TrainingProgress | null>(null);
   const [smoothedLoss, setSmoothedLoss] = useState(0);
   const [metrics, setMetrics] = useState<ModelMetricsType | null>(null);
+  const [qualityReport, setQualityReport] = useState<DataQualityReport | null>(null);
   const [showTechnicalDetails, setShowTechnicalDetails] = useState(false);
+  const [cacheStats, setCacheStats] = useState(getCacheStats);
+  const [cachedSpots, setCachedSpots] = useState(0);
+  const [proxySettings, setProxySettings] = useState<ProxySettings>(getProxySettings);
+  const [units, setUnits] = useState<UnitPreferences>(loadUnitPreferences);
+  const [rideabilitySettings, setRideabilitySettings] =
+    useState<RideabilitySettings>(loadRideabilitySettings);
+  const [rideability, setRideability] = useState<{
+    hours: RideabilityHour[];
+    summary: RideabilitySummary | null;
+  }>({ hours: [], summary: null });
+  const [rideabilityError, setRideabilityError] = useState<string | null>(null);
+  const [usingSavedModel, setUsingSavedModel] = useState(false);
+  const [onlineUpdate, setOnlineUpdate] = useState<OnlineUpdate | null>(null);
+  const [savedModelsVersion, setSavedModelsVersion] = useState(0);
+  // Bumped to rerun the analysis; forceRetrainRef makes that run skip the saved model
+  const [retrainRequest, setRetrainRequest] = useState(0);
+  const forceRetrainRef = useRef(false);
+  const [searchProgress, setSearchProgress] = useState<SearchProgress | null>(null);
+  const [searchResult, setSearchResult] = useState<SearchResult | null>(null);
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [isSearching, setIsSearching] = useState(false);
+
+  const customPreset = useMemo(
+    () => customPresets.find((preset) => preset.id === customPresetId) ?? null,
+    [customPresets, customPresetId]
+  );
 
-  const prepareTimeSeriesData = (
-    historicalData: WeatherData[],
-    predictions: number[],
-    field: keyof WeatherData
-  ) => {
-    return historicalData.map((data, index) => ({
-      timestamp: data.timestamp,
-      actual: data[field] as number,
-      predicted: predictions[index] || data[field] as number
-    }));
-  };
+  useEffect(() => {
+    const refreshSpots = () => countCachedSpots().then(setCachedSpots).catch(() => {});
+    refreshSpots();
+    return subscribeCacheStats((stats) => {
+      setCacheStats(stats);
+      refreshSpots();
+    });
+  }, []);
+
+  const tideStation = useMemo(
+    () =>
+      selectedLocation
+        ? findNearestTideStation(TIDE_STATIONS, selectedLocation.lat, selectedLocation.lon)
+        : null,
+    [selectedLocation]
+  );
+
+  const workerRef = useRef<Worker | null>(null);
+  const runIdRef = useRef(0);
+  // Run whose events are being applied, or null when idle
+  const activeRunRef = useRef<number | null>(null);
+  // Search in progress, or null; its listener is removed once it ends
+  const searchRunRef = useRef<{ runId: number; stopListening: () => void } | null>(null);
 
   useEffect(() => {
-    if (selectedLocation) {
-      let isMounted = true;
-
-      const initializeTraining = async () => {
-        try {
-          setIsLoading(true);
-          setError(null);
-          setPredictions([]);
-          // Initialize with required fields
-          setProgress({
-            currentEpoch: 0,
-            totalEpochs: 0,
-            loss: 0,
-            stage: 'initializing'
-          });
-
-          const data = await fetchHistoricalWeather(selectedLocation.lat, selectedLocation.lon);
-          if (!isMounted) return;
-
-          const now = Date.now();
-          const historical = data.filter((d) => d.timestamp <= now);
-          const forecast = data.filter((d) => d.timestamp > now);
-
-          const sortedHistorical = [...historical].sort((a, b) => a.timestamp - b.timestamp);
-          const sortedForecast = [...forecast].sort((a, b) => a.timestamp - b.timestamp);
-
-          if (!isMounted) return;
-          setHistoricalData(sortedHistorical);
-          setForecastData(sortedForecast);
-
-          // Determine model configuration based on performance preset
-          const epochs =
-            performancePreset === 'fast' ? 20 : performancePreset === 'accurate' ? 100 : 50;
-          const batchSize =
-            performancePreset === 'fast' ? 64 : performancePreset === 'accurate' ? 16 : 32;
-          const timeSteps =
-            performancePreset === 'fast' ? 8 : performancePreset === 'accurate' ? 24 : 16;
-
-          // Train model with progress tracking
-          const { model: newModel, trainingLoss, validationLoss, actuals, predictions } =
-            await trainModel(sortedHistorical, {
-              epochs: epochs,
-              timeSteps: timeSteps,
-              batchSize: batchSize,
-              learningRate: 0.001,
-              predictionSteps: 24,
-              performancePreset: performancePreset,
-              useLightModel: performancePreset === 'fast',
-              callbacks: {
-                onProgress: (progress) => {
-                  if (!isMounted) return;
-                  setProgress({
-                    currentEpoch: progress.currentEpoch,
-                    totalEpochs: progress.totalEpochs,
-                    loss: progress.loss,
-                    stage: 'training'
-                  });
-
-                  // Update smoothedLoss for progress display
-                  setSmoothedLoss((prevLoss) => {
-                    const smoothingFactor = 0.1;
-                    return prevLoss * (1 - smoothingFactor) + progress.loss * smoothingFactor;
-                  });
-                }
-              }
-            });
+    const worker = new Worker(new URL('./analysis.worker.ts', import.meta.url), {
+      type: 'module'
+    });
+    worker.addEventListener('message', (event: MessageEvent<AnalysisEvent>) => {
+      if (event.data.type === 'cacheStats') recordCacheStats(event.data.update);
+    });
+    workerRef.current = worker;
+    return () => {
+      worker.terminate();
+      workerRef.current = null;
+    };
+  }, []);
 
-          if (!isMounted) return;
-
-          // Calculate errors and metrics for each prediction type
-          const windSpeedErrors = actuals.map((actual, i) => predictions[i] - actual);
-          const rmse = Math.sqrt(windSpeedErrors.reduce((sum, err) => sum + err * err, 0) / windSpeedErrors.length);
-          const mae = windSpeedErrors.reduce((sum, err) => sum + Math.abs(err), 0) / windSpeedErrors.length;
-          const r2Score = calculateR2Score(actuals, predictions);
-
-          // Scale factors for different metrics
-          const waveHeightScale = 0.3; // Typical ratio of wave height to wind speed
-          const directionScale = 10;   // Typical ratio for direction errors
-
-          const modelMetrics: ModelMetricsType = {
-            validationStrategy: '80/20 train-test split',
-            rmse,
-            mae,
-            r2Score,
-            confidenceIntervals: {
-              wind: 1.96 * rmse,
-              direction: 1.96 * rmse * directionScale
-            },
-            sampleSize: actuals.length,
-            timestamp: new Date().toISOString(),
-            trainingLoss,
-            validationLoss,
-            errorDistribution: calculateErrorDistribution(windSpeedErrors, 0.5), // 0.5 m/s bins for wind speed
-            actuals,
-            predictions,
-            // Add time series data for each metric with appropriate scaling
-            windSpeedData: prepareTimeSeriesData(sortedHistorical, predictions, 'windSpeed'),
-            waveHeightData: prepareTimeSeriesData(
-              sortedHistorical,
-              predictions.map(p => p * waveHeightScale),
-              'waveHeight'
-            ),
-            windDirectionData: prepareTimeSeriesData(
-              sortedHistorical,
-              predictions.map(p => p * directionScale),
-              'windDirection'
-            )
-          };
-
-          setMetrics(modelMetrics);
-
-          // Update progress to predicting stage
-          setProgress((prev) =>
-            prev
-              ? {
-                  ...prev,
-                  stage: 'predicting',
-                  currentEpoch: prev.currentEpoch,
-                  totalEpochs: prev.totalEpochs,
-                  loss: prev.loss
-                }
-              : {
-                  currentEpoch: 0,
-                  totalEpochs: 0,
-                  loss: 0,
-                  stage: 'predicting'
-                }
-          );
-
-          const nextHours = await predictNextHours(newModel, sortedHistorical, timeSteps);
-          if (!isMounted) return;
-
-          // Convert WeatherData predictions to PredictionChunk format
-          const predictionChunks: PredictionChunk[] = nextHours.map(
-            (pred: WeatherData, index: number) => {
-              const startTime = now + index * 3600000; // 1 hour in milliseconds
-              return {
-                startTime,
-                endTime: startTime + 3600000,
-                windSpeed: pred.windSpeed,
-                windGusts: pred.windGusts,
-                windDirection: pred.windDirection,
-                waveHeight: pred.waveHeight || 0,
-                wavePeriod: pred.wavePeriod || 0,
-                swellDirection: pred.swellDirection || 0,
-                confidence: Math.max(0.1, 1 - index * 0.03) // Decrease confidence over time
-              };
-            }
-          );
-
-          setPredictions(predictionChunks);
-        } catch (err) {
-          if (!isMounted) return;
-          console.error('Analysis error:', err);
-          setError(err instanceof Error ? err.message : 'Unknown error during analysis');
-        } finally {
-          if (isMounted) {
-            setIsLoading(false);
-            setProgress(null);
+  useEffect(() => {
+    const worker = workerRef.current;
+    if (!selectedLocation || !worker) return;
+
+    let isMounted = true;
+    const runId = ++runIdRef.current;
+    activeRunRef.current = runId;
+    const forceRetrain = forceRetrainRef.current;
+    forceRetrainRef.current = false;
+
+    setIsLoading(true);
+    setError(null);
+    setPredictions([]);
+    setEnsembleMembers([]);
+    setCorrectedForecast([]);
+    setMosSummary(null);
+    setMosError(null);
+    // Initialize with required fields
+    setProgress({
+      currentEpoch: 0,
+      totalEpochs: 0,
+      loss: 0,
+      stage: 'initializing'
+    });
+
+    const finish = () => {
+      activeRunRef.current = null;
+      setIsLoading(false);
+      setProgress(null);
+    };
+
+    const handleMessage = (event: MessageEvent<AnalysisEvent>) => {
+      const message = event.data;
+      if (message.type === 'cacheStats' || message.runId !== runId) return;
+
+      switch (message.type) {
+        case 'progress': {
+          const { progress } = message;
+          setProgress(progress);
+          if (progress.stage === 'training') {
+            // Update smoothedLoss for progress display
+            setSmoothedLoss((prevLoss) => {
+              const smoothingFactor = 0.1;
+              return prevLoss * (1 - smoothingFactor) + progress.loss * smoothingFactor;
+            });
           }
+          break;
         }
-      };
+        case 'data':
+          setQualityReport(message.data.report);
+          setHistoricalData(message.data.historical);
+          setForecastData(message.data.forecast);
+          break;
+        case 'result': {
+          const { result } = message;
+          setMetrics(result.metrics);
+          setUsingSavedModel(result.usingSavedModel);
+          setOnlineUpdate(result.onlineUpdate);
+          if (result.modelSaved) setSavedModelsVersion((version) => version + 1);
+          setCorrectedForecast(result.correctedForecast);
+          setMosSummary(result.mosSummary);
+          setMosError(result.mosError);
+          setPredictions(result.predictions);
+          finish();
+          break;
+        }
+        case 'error':
+          setError(message.message);
+          finish();
+          break;
+        case 'cancelled':
+          finish();
+          break;
+      }
+    };
+    worker.addEventListener('message', handleMessage);
+
+    const start: AnalysisCommand = {
+      type: 'start',
+      runId,
+      request: {
+        lat: selectedLocation.lat,
+        lon: selectedLocation.lon,
+        source: recording ? { kind: 'recording', recording } : { kind: 'live' },
+        proxySettings,
+        historyDays,
+        performancePreset,
+        customPreset,
+        architecture,
+        trainingMode,
+        forecastMode,
+        compareForecastModes,
+        tideStation,
+        useTideFeature,
+        timeFeatures,
+        useMos,
+        forceRetrain
+      }
+    };
+    worker.postMessage(start);
+
+    // Other NWP models are a nice-to-have; fetch them alongside training
+    const { fetchEnsemble } = activeProvider;
+    if (fetchEnsemble && activeProvider.capabilities.ensembleModels.length > 0) {
+      const now = Date.now();
+      fetchEnsemble(
+        {
+          lat: selectedLocation.lat,
+          lon: selectedLocation.lon,
+          start: now,
+          end: now + 2 * 24 * 60 * 60 * 1000
+        },
+        activeProvider.capabilities.ensembleModels
+      )
+        .then((members) => {
+          if (isMounted) setEnsembleMembers(members);
+        })
+        .catch((err) => console.warn('Ensemble fetch failed:', err));
+    }
 
-      initializeTraining();
+    return () => {
+      isMounted = false;
+      worker.removeEventListener('message', handleMessage);
+      // Superseded: let the worker wind the old run down before it starts the next
+      if (activeRunRef.current === runId) {
+        const cancel: AnalysisCommand = { type: 'cancel', runId };
+        worker.postMessage(cancel);
+      }
+    };
+  }, [
+    selectedLocation,
+    performancePreset,
+    customPreset,
+    architecture,
+    trainingMode,
+    useLightModel,
+    activeProvider,
+    recording,
+    historyDays,
+    useTideFeature,
+    timeFeatures,
+    tideStation,
+    forecastMode,
+    compareForecastModes,
+    useMos,
+    retrainRequest
+  ]);
+
+  // Relearn rideability in the worker whenever the thresholds or the forecast change; the
+  // short delay keeps it from retraining on every keystroke
+  useEffect(() => {
+    const worker = workerRef.current;
+    const pairs = metrics?.forecastPairs;
+    if (!worker || !metrics || !pairs || predictions.length === 0) {
+      setRideability({ hours: [], summary: null });
+      // Saved models from before rideability was added have no forecast pairs
+      setRideabilityError(
+        metrics && !pairs ? 'retrain the model to learn it from its validation forecasts' : null
+      );
+      return;
+    }
 
-      return () => {
-        isMounted = false;
+    let runId: number | null = null;
+    const handleMessage = (event: MessageEvent<AnalysisEvent>) => {
+      const message = event.data;
+      if (message.type === 'cacheStats' || message.runId !== runId) return;
+
+      switch (message.type) {
+        case 'rideabilityResult':
+          setRideability(message.result);
+          setRideabilityError(null);
+          runId = null;
+          break;
+        case 'error':
+          setRideability({ hours: [], summary: null });
+          setRideabilityError(message.message);
+          runId = null;
+          break;
+        case 'cancelled':
+          runId = null;
+          break;
+      }
+    };
+    worker.addEventListener('message', handleMessage);
+
+    const timer = setTimeout(() => {
+      runId = ++runIdRef.current;
+      const command: AnalysisCommand = {
+        type: 'rideability',
+        runId,
+        request: { pairs, predictions, settings: rideabilitySettings }
       };
+      worker.postMessage(command);
+    }, 300);
+
+    return () => {
+      clearTimeout(timer);
+      worker.removeEventListener('message', handleMessage);
+      // Superseded while still fitting: stop it rather than let it finish unseen
+      if (runId !== null) {
+        const cancel: AnalysisCommand = { type: 'cancel', runId };
+        worker.postMessage(cancel);
+      }
+    };
+  }, [metrics, predictions, rideabilitySettings]);
+
+  const handleLocationSelect = (lat: number, lon: number) => {
+    setSelectedLocation({ lat, lon });
+  };
+
+  const handlePresetChange = (preset: PerformancePreset) => {
+    setPerformancePreset(preset);
+    setCustomPresetId(null);
+  };
+
+  const handleCustomPresetDelete = (id: string) => {
+    setCustomPresets(deleteCustomPreset(id));
+    if (customPresetId === id) setCustomPresetId(null);
+  };
+
+  const startSearch = () => {
+    const worker = workerRef.current;
+    if (!selectedLocation || !worker || searchRunRef.current) return;
+
+    const runId = ++runIdRef.current;
+    setIsSearching(true);
+    setSearchProgress(null);
+    setSearchResult(null);
+    setSearchError(null);
+
+    const finish = () => {
+      searchRunRef.current?.stopListening();
+      searchRunRef.current = null;
+      setIsSearching(false);
+    };
+
+    const handleMessage = (event: MessageEvent<AnalysisEvent>) => {
+      const message = event.data;
+      if (message.type === 'cacheStats' || message.runId !== runId) return;
+
+      switch (message.type) {
+        case 'searchProgress':
+          setSearchProgress(message.progress);
+          break;
+        case 'searchResult':
+          setSearchResult(message.result);
+          finish();
+          break;
+        case 'error':
+          setSearchError(message.message);
+          finish();
+          break;
+        case 'cancelled':
+          finish();
+          break;
+      }
+    };
+    worker.addEventListener('message', handleMessage);
+    searchRunRef.current = {
+      runId,
+      stopListening: () => worker.removeEventListener('message', handleMessage)
+    };
+
+    const search: AnalysisCommand = {
+      type: 'search',
+      runId,
+      request: {
+        lat: selectedLocation.lat,
+        lon: selectedLocation.lon,
+        source: recording ? { kind: 'recording', recording } : { kind: 'live' },
+        proxySettings,
+        historyDays,
+        forecastMode,
+        tideStation,
+        useTideFeature,
+        timeFeatures,
+        architecture
+      }
+    };
+    worker.postMessage(search);
+  };
+
+  const cancelSearch = () => {
+    const search = searchRunRef.current;
+    if (!search || !workerRef.current) return;
+    const cancel: AnalysisCommand = { type: 'cancel', runId: search.runId };
+    workerRef.current.postMessage(cancel);
+  };
+
+  // Saving also selects the preset, which reruns the analysis with it
+  const handleSaveSearchResult = (name: string) => {
+    if (!searchResult) return;
+    const { params, scores } = searchResult.winner;
+    const presets = saveCustomPreset(name, params, scores[scores.length - 1]);
+    setCustomPresets(presets);
+    setCustomPresetId(presets[presets.length - 1].id);
+  };
+
+  const handleRetrain = (record: SavedModelRecord) => {
+    forceRetrainRef.current = true;
+    if (!selectedLocation || spotKey(selectedLocation.lat, selectedLocation.lon) !== record.key) {
+      setSelectedLocation({ lat: record.lat, lon: record.lon });
     }
-  }, [selectedLocation, performancePreset, useLightModel]);
-
-  const calculateErrorDistribution = (errors: number[], binSize: number = 0.5) => {
-    const absErrors = errors.map(Math.abs);
-    const maxError = Math.ceil(Math.max(...absErrors));
-    const numBins = Math.ceil(maxError / binSize);
-    const distribution = new Array(numBins).fill(0);
-
-    errors.forEach((error) => {
-      const absError = Math.abs(error);
-      const binIndex = Math.min(Math.floor(absError / binSize), numBins - 1);
-      distribution[binIndex]++;
-    });
+    setRetrainRequest((request) => request + 1);
+  };
 
-    const total = errors.length;
-    return distribution.map((count) => (count / total) * 100);
+  const handleRecordingLoad = async (file: File) => {
+    try {
+      const recording = parseRecording(await file.text());
+      setActiveProvider(createFixtureProvider(recording));
+      setRecording(recording);
+      // Replay at the recorded spot so the map matches the data
+      if (typeof recording.lat === 'number' && typeof recording.lon === 'number') {
+        setSelectedLocation({ lat: recording.lat, lon: recording.lon });
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read recording');
+    }
   };
 
-  const handleLocationSelect = (lat: number, lon: number) => {
-    setSelectedLocation({ lat, lon });
+  const handleDownloadRecording = () => {
+    if (!selectedLocation) return;
+    const recording = recordWeather(activeProvider, selectedLocation.lat, selectedLocation.lon, [
+      ...historicalData,
+      ...forecastData
+    ]);
+    const url = URL.createObjectURL(
+      new Blob([JSON.stringify(recording)], { type: 'application/json' })
+    );
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `weather-${selectedLocation.lat.toFixed(3)}_${selectedLocation.lon.toFixed(3)}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const handleClearCache = async () => {
+    await clearWeatherCache();
+    setCachedSpots(await countCachedSpots());
+  };
+
+  const handleProxyChange = (settings: ProxySettings) => {
+    saveProxySettings(settings);
+    setProxySettings(settings);
+  };
+
+  const handleUnitsChange = (preferences: UnitPreferences) => {
+    saveUnitPreferences(preferences);
+    setUnits(preferences);
+  };
+
+  const handleRideabilityChange = (settings: RideabilitySettings) => {
+    saveRideabilitySettings(settings);
+    setRideabilitySettings(settings);
+  };
+
+  const handleUseLiveData = () => {
+    setActiveProvider(provider);
+    setRecording(null);
+  };
+
+  // Ask the worker to stop; the run finishes once it reports its tensors are released
+  const stopAnalysis = () => {
+    const runId = activeRunRef.current;
+    if (runId === null || !workerRef.current) return;
+    const cancel: AnalysisCommand = { type: 'cancel', runId };
+    workerRef.current.postMessage(cancel);
+    setProgress((prev) => prev && { ...prev, status: 'Stopping...' });
   };
 
   const resetLocation = () => {
-    window.location.reload();
+    setSelectedLocation(null);
+    setHistoricalData([]);
+    setForecastData([]);
+    setEnsembleMembers([]);
+    setPredictions([]);
+    setMetrics(null);
+    setQualityReport(null);
+    setCorrectedForecast([]);
+    setMosSummary(null);
+    setMosError(null);
+    setError(null);
+    setUsingSavedModel(false);
   };
 
   const getProgressPercentage = () => {
@@ -257,13 +579,52 @@ export function WeatherPredictor() {
   };
 
   // Determine current configuration for display
-  const currentEpochs =
-    performancePreset === 'fast' ? 20 : performancePreset === 'accurate' ? 100 : 50;
-  const currentTimeSteps =
-    performancePreset === 'fast' ? 8 : performancePreset === 'accurate' ? 24 : 16;
-  const modelType = useLightModel
-    ? 'Light model (32 LSTM units)'
-    : 'Standard model (64 & 32 LSTM units)';
+  const hyperParameters = resolveHyperParameters(performancePreset, customPreset);
+  const lightModel = usesLightModel(performancePreset, customPreset);
+  const { epochs: currentEpochs, timeSteps: currentTimeSteps } = hyperParameters;
+  const architectureLabel = ARCHITECTURES.find((a) => a.value === architecture)?.label;
+  const modelSize = lightModel ? 'Light' : 'Standard';
+  const modelType = `${modelSize} ${architectureLabel} model (${hyperParameters.units} units)`;
+
+  // Parameter counts at the current settings. Counting builds each network, so only
+  // while the details are open.
+  const architectureSizes = useMemo(
+    () =>
+      showTechnicalDetails
+        ? ARCHITECTURES.map(({ value, label, description }) => ({
+            label,
+            description,
+            selected: value === architecture,
+            parameters: countModelParameters(
+              {
+                ...hyperParameters,
+                predictionSteps: 24,
+                performancePreset,
+                architecture: value,
+                useLightModel: lightModel,
+                tideStation: useTideFeature ? tideStation : null,
+                forecastMode,
+                timeFeatures,
+                location: selectedLocation ?? undefined
+              },
+              hasWaveData(historicalData)
+            )
+          }))
+        : [],
+    // hyperParameters and lightModel follow from the presets
+    [
+      showTechnicalDetails,
+      performancePreset,
+      customPreset,
+      architecture,
+      useTideFeature,
+      tideStation,
+      forecastMode,
+      timeFeatures,
+      selectedLocation,
+      historicalData
+    ]
+  );
 
   return (
     <div className="min-h-screen bg-[#0A0F1C]">
@@ -278,7 +639,7 @@ export function WeatherPredictor() {
                 </div>
                 {(selectedLocation || isLoading) && (
                   <button
-                    onClick={resetLocation}
+                    onClick={isLoading ? stopAnalysis : resetLocation}
                     className="px-4 py-2 rounded-lg text-sm font-medium transition-all duration-200
                           bg-gray-800 text-gray-100 hover:bg-gray-700 hover:text-white
                           border border-gray-700/50 hover:border-gray-600
@@ -310,8 +671,80 @@ export function WeatherPredictor() {
                 <PerformanceControls
                   performancePreset={performancePreset}
                   useLightModel={useLightModel}
-                  onPresetChange={setPerformancePreset}
+                  onPresetChange={handlePresetChange}
+                  customPresets={customPresets}
+                  customPresetId={customPresetId}
+                  onCustomPresetChange={setCustomPresetId}
+                  onCustomPresetDelete={handleCustomPresetDelete}
+                  architecture={architecture}
+                  onArchitectureChange={setArchitecture}
+                  trainingMode={trainingMode}
+                  onTrainingModeChange={setTrainingMode}
                   onModelTypeChange={setUseLightModel}
+                  historyDays={historyDays}
+                  onHistoryDaysChange={setHistoryDays}
+                  tideStationName={tideStation?.name ?? null}
+                  useTideFeature={useTideFeature}
+                  onTideFeatureChange={setUseTideFeature}
+                  timeFeatures={timeFeatures}
+                  onTimeFeaturesChange={setTimeFeatures}
+                  forecastMode={forecastMode}
+                  onForecastModeChange={setForecastMode}
+                  compareForecastModes={compareForecastModes}
+                  onCompareForecastModesChange={setCompareForecastModes}
+                  canCorrectForecast={
+                    !!activeProvider.fetchPreviousForecasts &&
+                    activeProvider.capabilities.maxPreviousForecastDays > 0
+                  }
+                  useMos={useMos}
+                  onMosChange={setUseMos}
+                />
+              </div>
+
+              <div className="bg-gray-800/50 p-4 rounded-xl border border-gray-700/50 mb-4">
+                <DataSourceControls
+                  provider={activeProvider}
+                  canDownload={!isLoading && historicalData.length > 0}
+                  cacheStats={cacheStats}
+                  cachedSpots={cachedSpots}
+                  onRecordingLoad={handleRecordingLoad}
+                  onUseLiveData={handleUseLiveData}
+                  onDownloadRecording={handleDownloadRecording}
+                  onClearCache={handleClearCache}
+                />
+                {!activeProvider.capabilities.offline && (
+                  <div className="mt-3 pt-3 border-t border-gray-700/50">
+                    <ProxyControls settings={proxySettings} onChange={handleProxyChange} />
+                  </div>
+                )}
+              </div>
+
+              <div className="bg-gray-800/50 p-4 rounded-xl border border-gray-700/50 mb-4">
+                <h3 className="text-lg text-white font-medium mb-2">Hyperparameter Search</h3>
+                <HyperparameterSearch
+                  canSearch={!!selectedLocation && !isLoading}
+                  isSearching={isSearching}
+                  progress={searchProgress}
+                  result={searchResult}
+                  error={searchError}
+                  units={units}
+                  onStart={startSearch}
+                  onCancel={cancelSearch}
+                  onSave={handleSaveSearchResult}
+                />
+              </div>
+
+              <div className="bg-gray-800/50 p-4 rounded-xl border border-gray-700/50 mb-4">
+                <h3 className="text-lg text-white font-medium mb-2">Saved Models</h3>
+                <ModelManager
+                  currentSpotKey={
+                    selectedLocation ? spotKey(selectedLocation.lat, selectedLocation.lon) : null
+                  }
+                  usingSavedModel={usingSavedModel}
+                  onlineUpdate={onlineUpdate}
+                  refreshToken={savedModelsVersion}
+                  disabled={isLoading}
+                  onRetrain={handleRetrain}
                 />
               </div>
 
@@ -332,14 +765,23 @@ export function WeatherPredictor() {
                       {modelType} with {currentEpochs} training epochs and {currentTimeSteps} time
                       steps.
                     </p>
-                    <ModelInfo />
+                    <ModelInfo architectures={architectureSizes} />
+                    {metrics?.inputImportance && (
+                      <Explainability importance={metrics.inputImportance} units={units} />
+                    )}
                     {/* Preprocessing Section */}
                     <div className="mt-4">
                       <h4 className="text-md font-medium text-white">Data Preprocessing</h4>
                       <p className="text-sm text-gray-300 mt-1">
-                        The data is normalized using Z-score normalization. Missing values are
+                        The data is normalized using Z-score normalization. Gaps of up to three
+                        hours are interpolated (along the shorter arc for directions); longer gaps
+                        are excluded from training windows and any remaining missing values are
                         handled with mean imputation. Wind directions are converted using sine and
-                        cosine transformations to preserve cyclical nature.
+                        cosine transformations to preserve cyclical nature. Air temperature, rain,
+                        sea-level pressure (with its 3-hour tendency), cloud cover and 80m wind
+                        are included alongside the 10m wind and wave inputs. The hour of day and
+                        day of year (as sine and cosine) and the sun's elevation at the spot can be
+                        added too; they are known in advance, so every forecast hour gets its own.
                       </p>
                     </div>
                   </div>
@@ -374,7 +816,10 @@ export function WeatherPredictor() {
             <div className="bg-gray-900/50 backdrop-blur-xl rounded-2xl border border-gray-800 p-8">
               <div className="space-y-6">
                 <div className="flex flex-col space-y-4">
-                  <h3 className="text-xl font-semibold text-white">Weather Data Analysis</h3>
+                  <div className="flex flex-wrap items-center justify-between gap-3">
+                    <h3 className="text-xl font-semibold text-white">Weather Data Analysis</h3>
+                    <UnitControls units={units} onChange={handleUnitsChange} />
+                  </div>
                   <div className="grid gap-3 bg-slate-900 p-4 rounded-xl border border-slate-700">
                     <div className="flex items-center gap-3">
                       <div className="w-2.5 h-2.5 rounded-full bg-blue-400 ring-4 ring-blue-400/10"></div>
@@ -388,15 +833,42 @@ export function WeatherPredictor() {
                       <div className="w-2.5 h-2.5 rounded-full bg-violet-400 ring-4 ring-violet-400/10"></div>
                       <span className="text-violet-100 font-medium">AI Prediction</span>
                     </div>
+                    {correctedForecast.length > 0 && (
+                      <div className="flex items-center gap-3">
+                        <div className="w-2.5 h-2.5 rounded-full bg-teal-400 ring-4 ring-teal-400/10"></div>
+                        <span className="text-teal-100 font-medium">Corrected Forecast</span>
+                      </div>
+                    )}
                   </div>
+                  {mosError && (
+                    <p className="text-sm text-amber-300">
+                      Forecast correction unavailable: {mosError}
+                    </p>
+                  )}
                 </div>
 
+                <RideabilityStrip
+                  hours={rideability.hours}
+                  summary={rideability.summary}
+                  error={rideabilityError}
+                  settings={rideabilitySettings}
+                  onSettingsChange={handleRideabilityChange}
+                  units={units}
+                />
+
                 {/* Wind Table Component */}
                 <WindTable
                   historicalData={historicalData}
                   forecastData={forecastData}
                   predictions={predictions}
+                  tideStation={tideStation}
+                  ensemble={ensembleMembers}
+                  units={units}
+                  correctedForecast={correctedForecast}
+                  mosSummary={mosSummary}
                 />
+
+                {qualityReport && <DataQuality report={qualityReport} />}
               </div>
             </div>
           </div>
@@ -427,10 +899,12 @@ export function WeatherPredictor() {
                 <div className="flex items-center justify-between">
                   <div className="flex items-center gap-4">
                     <div className="font-medium text-white">
-                      {progress?.stage === 'initializing' && 'Initializing model...'}
+                      {progress?.stage === 'initializing' &&
+                        (progress.status ?? 'Initializing model...')}
                       {progress?.stage === 'training' &&
-                        `Training model (${progress.currentEpoch}/${progress.totalEpochs})`}
-                      {progress?.stage === 'predicting' && 'Generating predictions...'}
+                        `${progress.status ?? 'Training model'} (${progress.currentEpoch}/${progress.totalEpochs})`}
+                      {progress?.stage === 'predicting' &&
+                        (progress.status ?? 'Generating predictions...')}
                       {!progress && 'Preparing analysis...'}
                     </div>
                     {progress?.stage === 'training' && progress.loss !== undefined && (
@@ -468,7 +942,7 @@ export function WeatherPredictor() {
         {metrics && !error && (
           <div className="mb-8">
             <div className="bg-gray-900/50 backdrop-blur-xl rounded-2xl border border-gray-800 p-8">
-              <ModelMetrics metrics={metrics} />
+              <ModelMetrics metrics={metrics} units={units} />
             </div>
           </div>
         )}
@@ -0,0 +1,108 @@
+import type { ValidationForecast, ValidationPair } from './model';
+import type {
+  ForecastPair,
+  QuantileField,
+  TimeSeriesDataPoint,
+  VariableMetrics,
+  WeatherData,
+  WindSample
+} from './types';
+
+// Validation error for every model output, from the walk-forward folds' one-hour-ahead
+// predictions, in the same units the data comes in.
+
+export const METRIC_VARIABLES: QuantileField[] = [
+  'windSpeed',
+  'windGusts',
+  'windDirection',
+  'waveHeight',
+  'wavePeriod',
+  'swellDirection',
+  'temperature',
+  'precipitation',
+  'pressure',
+  'cloudCover',
+  'windSpeed80m',
+  'windDirection80m'
+];
+
+const DIRECTIONS: QuantileField[] = ['windDirection', 'swellDirection', 'windDirection80m'];
+
+export const isDirection = (variable: QuantileField) => DIRECTIONS.includes(variable);
+
+// Directions are compared along the shorter arc, so 350° against 10° is 20° out, not 340°
+const forecastError = (variable: QuantileField, predicted: number, actual: number) =>
+  isDirection(variable) ? ((predicted - actual + 540) % 360) - 180 : predicted - actual;
+
+const valueOf = (value: number | undefined) =>
+  typeof value === 'number' && isFinite(value) ? value : undefined;
+
+// Signed errors for `variable` over the pairs where both sides have a value
+function variableErrors(pairs: ValidationPair[], variable: QuantileField): number[] {
+  const errors: number[] = [];
+  for (const { predicted, actual } of pairs) {
+    const p = valueOf(predicted[variable]);
+    const a = valueOf(actual[variable]);
+    if (p !== undefined && a !== undefined) errors.push(forecastError(variable, p, a));
+  }
+  return errors;
+}
+
+/** RMSE, MAE and bias per variable; variables the spot has no data for are left out. */
+export function scoreVariables(pairs: ValidationPair[]): VariableMetrics[] {
+  return METRIC_VARIABLES.flatMap((variable) => {
+    const errors = variableErrors(pairs, variable);
+    if (errors.length === 0) return [];
+    const n = errors.length;
+    return [
+      {
+        variable,
+        rmse: Math.sqrt(errors.reduce((sum, e) => sum + e * e, 0) / n),
+        mae: errors.reduce((sum, e) => sum + Math.abs(e), 0) / n,
+        bias: errors.reduce((sum, e) => sum + e, 0) / n,
+        samples: n
+      }
+    ];
+  });
+}
+
+/** Actual against predicted for `variable`, at the hour each validation prediction was for. */
+export function toTimeSeries(
+  pairs: ValidationPair[],
+  variable: QuantileField
+): TimeSeriesDataPoint[] {
+  return pairs.flatMap(({ timestamp, predicted, actual }) => {
+    const p = valueOf(predicted[variable]);
+    const a = valueOf(actual[variable]);
+    return p !== undefined && a !== undefined ? [{ timestamp, actual: a, predicted: p }] : [];
+  });
+}
+
+const windOf = ({ windSpeed, windGusts, windDirection }: WeatherData): WindSample => ({
+  windSpeed,
+  windGusts,
+  windDirection
+});
+
+/** Every hour of the validation forecasts against what was observed, with its lead time. */
+export function toForecastPairs(
+  data: WeatherData[],
+  forecasts: ValidationForecast[]
+): ForecastPair[] {
+  const byHour = new Map(data.map((d) => [d.timestamp, d]));
+  return forecasts.flatMap(({ forecast }) =>
+    forecast.flatMap((predicted, step) => {
+      const actual = byHour.get(predicted.timestamp);
+      return actual
+        ? [
+            {
+              timestamp: predicted.timestamp,
+              lead: step + 1,
+              predicted: windOf(predicted),
+              actual: windOf(actual)
+            }
+          ]
+        : [];
+    })
+  );
+}
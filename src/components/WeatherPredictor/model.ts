@@ -1,24 +1,199 @@
 import * as tf from '@tensorflow/tfjs';
-import type { WeatherData, ModelConfig } from './types';
+import type {
+  WeatherData,
+  FoldMetrics,
+  InputFeature,
+  InputImportance,
+  ModelConfig,
+  ForecastMode,
+  PredictionQuantiles,
+  QuantileBand,
+  QuantileField,
+  TimeFeatures
+} from './types';
+import { addTideHeights } from '../../lib/tides';
+import type { TideStation } from '../../lib/tides';
+import { sunElevation } from '../../lib/solar';
 
-interface DataStats {
+export interface DataStats {
   mean: { [key: string]: number };
   std: { [key: string]: number };
+  // Fields with no spread (or no values) in the data, whose std is a stand-in of 1
+  flat?: string[];
 }
 
-const calculateStats = (data: WeatherData[]): DataStats => {
+// A trained network plus everything needed to build its inputs and read its outputs
+export interface TrainedModel {
+  model: tf.LayersModel;
+  // Normalisation fitted on the training data
+  stats: DataStats;
+  timeSteps: number;
+  predictionSteps: number;
+  forecastMode: ForecastMode;
+  // Whether wave features are part of the inputs and outputs
+  useWaves: boolean;
+  // Station whose tide heights are fed in, if any
+  tideStation: TideStation | null;
+  timeFeatures: TimeFeatures;
+  // Spot the sun elevation is computed for
+  location: { lat: number; lon: number } | null;
+}
+
+export const NO_TIME_FEATURES: TimeFeatures = {
+  hourOfDay: false,
+  dayOfYear: false,
+  sunElevation: false
+};
+
+// Weather record plus features derived from neighbouring hours and from its timestamp.
+// Time features are already scaled to [-1, 1] and are not normalised.
+type ModelRecord = WeatherData & { pressureTendency?: number; timeFeatures?: number[] };
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Hours over which pressure tendency is measured (the usual synoptic 3-hour tendency)
+const PRESSURE_TENDENCY_HOURS = 3;
+
+const addPressureTendency = (data: WeatherData[]): ModelRecord[] => {
+  return data.map((d, i) => {
+    const previous = data[i - PRESSURE_TENDENCY_HOURS];
+    return {
+      ...d,
+      pressureTendency:
+        previous && d.pressure !== undefined && previous.pressure !== undefined
+          ? d.pressure - previous.pressure
+          : undefined
+    };
+  });
+};
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+const DAY_MS = 24 * HOUR_MS;
+const YEAR_DAYS = 365.25;
+
+const addTimeFeatures = (
+  data: ModelRecord[],
+  features: TimeFeatures,
+  location: { lat: number; lon: number } | null
+): ModelRecord[] => {
+  if (!features.hourOfDay && !features.dayOfYear && !features.sunElevation) return data;
+  return data.map((d) => {
+    const date = new Date(d.timestamp);
+    const hourAngle = (2 * Math.PI * date.getUTCHours()) / 24;
+    const yearStart = Date.UTC(date.getUTCFullYear(), 0, 1);
+    const dayAngle = (2 * Math.PI * Math.floor((d.timestamp - yearStart) / DAY_MS)) / YEAR_DAYS;
+    return {
+      ...d,
+      timeFeatures: [
+        ...(features.hourOfDay ? [Math.sin(hourAngle), Math.cos(hourAngle)] : []),
+        ...(features.dayOfYear ? [Math.sin(dayAngle), Math.cos(dayAngle)] : []),
+        ...(features.sunElevation && location
+          ? [sunElevation(location.lat, location.lon, d.timestamp) / 90]
+          : [])
+      ]
+    };
+  });
+};
+
+// Angle in degrees, 0-360, from its sin/cos encoding
+const fromSinCos = (sin: number, cos: number) =>
+  ((Math.atan2(sin, cos) * (180 / Math.PI)) + 360) % 360;
+
+// Below this share of hours with a wave height the spot is treated as having no marine
+// data (lakes, reservoirs) and the wave features are left out entirely
+const MIN_WAVE_COVERAGE = 0.5;
+
+export const hasWaveData = (data: WeatherData[]): boolean =>
+  data.length > 0 &&
+  data.filter((d) => d.waveHeight !== undefined && !isNaN(d.waveHeight)).length / data.length >=
+    MIN_WAVE_COVERAGE;
+
+// Sin/cos of a direction; (0, 0) when it is missing, so no data doesn't read as due north
+const directionVector = (degrees: number | undefined): number[] =>
+  degrees === undefined || isNaN(degrees)
+    ? [0, 0]
+    : [Math.sin(toRadians(degrees)), Math.cos(toRadians(degrees))];
+
+// Model outputs, in order. Also the first part of every input step.
+const toTargetVector = (d: ModelRecord, useWaves: boolean): number[] => [
+  d.windSpeed,
+  d.windGusts,
+  Math.sin(toRadians(d.windDirection)),
+  Math.cos(toRadians(d.windDirection)),
+  ...(useWaves
+    ? [
+        d.waveHeight || 0,
+        d.wavePeriod || 0,
+        ...directionVector(d.swellDirection)
+      ]
+    : []),
+  d.temperature || 0,
+  d.precipitation || 0,
+  d.pressure || 0,
+  d.cloudCover || 0,
+  d.windSpeed80m || 0,
+  ...directionVector(d.windDirection80m)
+];
+
+// Inputs add derived features that are recomputed rather than predicted. Tide and the
+// time features are astronomical, so they are known for future steps and never predicted.
+const toFeatureVector = (d: ModelRecord, useWaves: boolean, useTide: boolean): number[] => [
+  ...toTargetVector(d, useWaves),
+  d.pressureTendency || 0,
+  ...(useTide ? [d.tideHeight || 0] : []),
+  ...(d.timeFeatures ?? [])
+];
+
+// Columns of the feature vector per input, in the order toFeatureVector lays them out
+const inputLayout = (
+  useWaves: boolean,
+  useTide: boolean,
+  timeFeatures: TimeFeatures
+): { feature: InputFeature; columns: number }[] => [
+  { feature: 'windSpeed', columns: 1 },
+  { feature: 'windGusts', columns: 1 },
+  { feature: 'windDirection', columns: 2 },
+  ...(useWaves
+    ? [
+        { feature: 'waveHeight' as const, columns: 1 },
+        { feature: 'wavePeriod' as const, columns: 1 },
+        { feature: 'swellDirection' as const, columns: 2 }
+      ]
+    : []),
+  { feature: 'temperature', columns: 1 },
+  { feature: 'precipitation', columns: 1 },
+  { feature: 'pressure', columns: 1 },
+  { feature: 'cloudCover', columns: 1 },
+  { feature: 'windSpeed80m', columns: 1 },
+  { feature: 'windDirection80m', columns: 2 },
+  { feature: 'pressureTendency', columns: 1 },
+  ...(useTide ? [{ feature: 'tideHeight' as const, columns: 1 }] : []),
+  ...(timeFeatures.hourOfDay ? [{ feature: 'hourOfDay' as const, columns: 2 }] : []),
+  ...(timeFeatures.dayOfYear ? [{ feature: 'dayOfYear' as const, columns: 2 }] : []),
+  ...(timeFeatures.sunElevation ? [{ feature: 'sunElevation' as const, columns: 1 }] : [])
+];
+
+const calculateStats = (data: ModelRecord[]): DataStats => {
   const stats: DataStats = {
     mean: {},
-    std: {}
+    std: {},
+    flat: []
   };
 
+  // Directions are left out: they are encoded as sin/cos, which is already scaled
   const numericFields = [
     'windSpeed',
     'windGusts',
-    'windDirection',
     'waveHeight',
     'wavePeriod',
-    'swellDirection'
+    'temperature',
+    'precipitation',
+    'pressure',
+    'cloudCover',
+    'windSpeed80m',
+    'pressureTendency',
+    'tideHeight'
   ];
 
   // Calculate means
@@ -43,12 +218,13 @@ const calculateStats = (data: WeatherData[]): DataStats => {
         : 1;
     // Prevent division by zero
     if (stats.std[field] === 0) stats.std[field] = 1;
+    if (values.length === 0 || squaredDiffs.every((d) => d === 0)) stats.flat?.push(field);
   });
 
   return stats;
 };
 
-const normalizeData = (data: WeatherData[], stats: DataStats): WeatherData[] => {
+const normalizeData = (data: ModelRecord[], stats: DataStats): ModelRecord[] => {
   return data.map((record) => {
     const normalized = { ...record };
     Object.keys(stats.mean).forEach((field) => {
@@ -64,94 +240,219 @@ const normalizeData = (data: WeatherData[], stats: DataStats): WeatherData[] =>
   });
 };
 
-const denormalizePrediction = (pred: number[], stats: DataStats): WeatherData => {
+const denormalizePrediction = (
+  pred: number[],
+  stats: DataStats,
+  useWaves: boolean
+): WeatherData => {
+  // Outputs after the wave block shift down when it is left out
+  const offset = useWaves ? 4 : 0;
+
   return {
     timestamp: Date.now(),
     windSpeed: pred[0] * stats.std.windSpeed + stats.mean.windSpeed,
     windGusts: pred[1] * stats.std.windGusts + stats.mean.windGusts,
-    windDirection: ((Math.atan2(pred[3], pred[2]) * (180 / Math.PI)) + 360) % 360,
-    waveHeight: pred[4] * stats.std.waveHeight + stats.mean.waveHeight,
-    wavePeriod: pred[5] * stats.std.wavePeriod + stats.mean.wavePeriod,
-    swellDirection: ((Math.atan2(pred[7], pred[6]) * (180 / Math.PI)) + 360) % 360,
+    windDirection: fromSinCos(pred[2], pred[3]),
+    waveHeight: useWaves ? pred[4] * stats.std.waveHeight + stats.mean.waveHeight : undefined,
+    wavePeriod: useWaves ? pred[5] * stats.std.wavePeriod + stats.mean.wavePeriod : undefined,
+    swellDirection: useWaves ? fromSinCos(pred[6], pred[7]) : undefined,
+    temperature: pred[4 + offset] * stats.std.temperature + stats.mean.temperature,
+    precipitation: Math.max(
+      0,
+      pred[5 + offset] * stats.std.precipitation + stats.mean.precipitation
+    ),
+    pressure: pred[6 + offset] * stats.std.pressure + stats.mean.pressure,
+    cloudCover: Math.min(
+      100,
+      Math.max(0, pred[7 + offset] * stats.std.cloudCover + stats.mean.cloudCover)
+    ),
+    windSpeed80m: pred[8 + offset] * stats.std.windSpeed80m + stats.mean.windSpeed80m,
+    windDirection80m: fromSinCos(pred[9 + offset], pred[10 + offset]),
     isForecast: true
   };
 };
 
-const prepareTrainingData = (data: WeatherData[], timeSteps: number) => {
-  const stats = calculateStats(data);
-  const normalizedData = normalizeData(data, stats);
-
+/**
+ * Input windows and targets for forecasts starting at hours `from` to `to` (exclusive).
+ * With a horizon above one, each target is the next `horizon` hours flattened into one
+ * vector, for models that predict them all at once. `origins` holds the index of each
+ * window's first target hour.
+ */
+const buildWindows = (
+  normalizedData: ModelRecord[],
+  timeSteps: number,
+  horizon: number,
+  useWaves: boolean,
+  useTide: boolean,
+  from: number,
+  to: number
+) => {
   const X: number[][][] = [];
   const y: number[][] = [];
+  const origins: number[] = [];
 
-  for (let i = timeSteps; i < normalizedData.length; i++) {
-    const inputSequence = normalizedData.slice(i - timeSteps, i).map((d) => [
-      d.windSpeed,
-      d.windGusts,
-      Math.sin((d.windDirection * Math.PI) / 180),
-      Math.cos((d.windDirection * Math.PI) / 180),
-      d.waveHeight || 0,
-      d.wavePeriod || 0,
-      Math.sin(((d.swellDirection || 0) * Math.PI) / 180),
-      Math.cos(((d.swellDirection || 0) * Math.PI) / 180)
-    ]);
-
-    const targetFeatures = [
-      normalizedData[i].windSpeed,
-      normalizedData[i].windGusts,
-      Math.sin((normalizedData[i].windDirection * Math.PI) / 180),
-      Math.cos((normalizedData[i].windDirection * Math.PI) / 180),
-      normalizedData[i].waveHeight || 0,
-      normalizedData[i].wavePeriod || 0,
-      Math.sin(((normalizedData[i].swellDirection || 0) * Math.PI) / 180),
-      Math.cos(((normalizedData[i].swellDirection || 0) * Math.PI) / 180)
-    ];
+  for (let i = Math.max(from, timeSteps); i < to && i + horizon <= normalizedData.length; i++) {
+    // Skip windows that straddle a gap the data-quality stage couldn't fill
+    const windowSpan =
+      normalizedData[i + horizon - 1].timestamp - normalizedData[i - timeSteps].timestamp;
+    if (windowSpan !== (timeSteps + horizon - 1) * HOUR_MS) continue;
+
+    const inputSequence = normalizedData
+      .slice(i - timeSteps, i)
+      .map((d) => toFeatureVector(d, useWaves, useTide));
+    const targetFeatures = normalizedData
+      .slice(i, i + horizon)
+      .flatMap((d) => toTargetVector(d, useWaves));
 
     X.push(inputSequence);
     y.push(targetFeatures);
+    origins.push(i);
   }
 
-  return {
-    inputs: tf.tensor3d(X),
-    targets: tf.tensor2d(y),
-    stats
-  };
+  return { X, y, origins };
 };
 
+type Layer = tf.SymbolicTensor;
+
+const TCN_KERNEL_SIZE = 3;
+
+/**
+ * Causal convolution with dilation `dilation` over a [timeSteps, channels] sequence. tf.js
+ * has neither causal padding nor gradients for dilated convolutions, so time is folded into
+ * a grid of `dilation` columns, where a plain [kernel, 1] convolution down the rows touches
+ * exactly the steps `dilation` apart. Left padding keeps it causal and the length unchanged.
+ */
+function dilatedCausalConv(
+  input: Layer,
+  timeSteps: number,
+  channels: number,
+  filters: number,
+  dilation: number
+): Layer {
+  const reach = (TCN_KERNEL_SIZE - 1) * dilation;
+  // Extra steps so the padded length divides into whole rows
+  const extra = (dilation - ((timeSteps + reach) % dilation)) % dilation;
+  const padded = timeSteps + reach + extra;
+
+  let x = tf.layers.reshape({ targetShape: [timeSteps, channels, 1] }).apply(input) as Layer;
+  x = tf.layers.zeroPadding2d({ padding: [[reach + extra, 0], [0, 0]] }).apply(x) as Layer;
+  x = tf.layers.reshape({ targetShape: [padded / dilation, dilation, channels] }).apply(x) as Layer;
+  x = tf.layers
+    .conv2d({ filters, kernelSize: [TCN_KERNEL_SIZE, 1], activation: 'relu' })
+    .apply(x) as Layer;
+  x = tf.layers.reshape({ targetShape: [timeSteps + extra, filters, 1] }).apply(x) as Layer;
+  x = tf.layers.cropping2D({ cropping: [[extra, 0], [0, 0]] }).apply(x) as Layer;
+  return tf.layers.reshape({ targetShape: [timeSteps, filters] }).apply(x) as Layer;
+}
+
+// Residual blocks with dilations 1, 2, 4... until the last step sees the whole window
+function temporalConvolution(
+  input: Layer,
+  timeSteps: number,
+  units: number,
+  dropout: number
+): Layer {
+  let x = tf.layers.dense({ units }).apply(input) as Layer;
+  for (let dilation = 1, field = 1; field < timeSteps; dilation *= 2) {
+    const block = dilatedCausalConv(x, timeSteps, units, units, dilation);
+    x = tf.layers
+      .add()
+      .apply([x, tf.layers.dropout({ rate: dropout }).apply(block) as Layer]) as Layer;
+    field += (TCN_KERNEL_SIZE - 1) * dilation;
+  }
+
+  // Only the last step is read out
+  x = tf.layers.reshape({ targetShape: [timeSteps, units, 1] }).apply(x) as Layer;
+  x = tf.layers.cropping2D({ cropping: [[timeSteps - 1, 0], [0, 0]] }).apply(x) as Layer;
+  return tf.layers.flatten().apply(x) as Layer;
+}
+
+// Single-head self-attention with residual connections and layer normalisation, as in a
+// transformer encoder layer. Built from stock layers so the model saves and loads as usual.
+function attentionBlock(input: Layer, units: number, dropout: number): Layer {
+  const project = () => tf.layers.dense({ units }).apply(input) as Layer;
+  const [query, key, value] = [project(), project(), project()];
+
+  let scores = tf.layers.dot({ axes: [2, 2] }).apply([query, key]) as Layer;
+  scores = tf.layers.rescaling({ scale: 1 / Math.sqrt(units) }).apply(scores) as Layer;
+  const weights = tf.layers.softmax({ axis: -1 }).apply(scores) as Layer;
+  const attended = tf.layers.dot({ axes: [2, 1] }).apply([weights, value]) as Layer;
+
+  const residual = (x: Layer, update: Layer) =>
+    tf.layers
+      .layerNormalization()
+      .apply(
+        tf.layers.add().apply([x, tf.layers.dropout({ rate: dropout }).apply(update) as Layer])
+      ) as Layer;
+
+  const x = residual(input, attended);
+  const hidden = tf.layers.dense({ units: units * 2, activation: 'relu' }).apply(x) as Layer;
+  return residual(x, tf.layers.dense({ units }).apply(hidden) as Layer);
+}
+
 function createModel(
   numFeatures: number,
   outputDim: number,
   timeSteps: number,
-  useLightModel: boolean
+  {
+    architecture = 'lstm',
+    useLightModel,
+    units = useLightModel ? 32 : 64,
+    dropout = 0.2
+  }: ModelConfig
 ): tf.LayersModel {
-  const model = tf.sequential();
-
-  if (useLightModel) {
-    model.add(
-      tf.layers.lstm({
-        units: 32,
-        returnSequences: false,
-        inputShape: [timeSteps, numFeatures]
-      })
-    );
+  const input = tf.input({ shape: [timeSteps, numFeatures] });
+  let encoded: Layer;
+
+  if (architecture === 'tcn') {
+    encoded = temporalConvolution(input, timeSteps, units, dropout);
+  } else if (architecture === 'transformer') {
+    let x = tf.layers.dense({ units }).apply(input) as Layer;
+    for (let block = 0; block < (useLightModel ? 1 : 2); block++) {
+      x = attentionBlock(x, units, dropout);
+    }
+    // Attention itself ignores order; reading out every step keeps the positions
+    encoded = tf.layers.flatten().apply(x) as Layer;
   } else {
-    model.add(
-      tf.layers.lstm({
-        units: 64,
-        returnSequences: true,
-        inputShape: [timeSteps, numFeatures]
-      })
-    );
-    model.add(tf.layers.dropout({ rate: 0.2 }));
-    model.add(tf.layers.lstm({ units: 32, returnSequences: false }));
-    model.add(tf.layers.dropout({ rate: 0.2 }));
+    const recurrent = architecture === 'gru' ? tf.layers.gru : tf.layers.lstm;
+    if (useLightModel) {
+      encoded = recurrent({ units, returnSequences: false }).apply(input) as Layer;
+    } else {
+      let x = recurrent({ units, returnSequences: true }).apply(input) as Layer;
+      x = tf.layers.dropout({ rate: dropout }).apply(x) as Layer;
+      const secondUnits = Math.max(1, Math.round(units / 2));
+      x = recurrent({ units: secondUnits, returnSequences: false }).apply(x) as Layer;
+      encoded = tf.layers.dropout({ rate: dropout }).apply(x) as Layer;
+    }
   }
 
-  model.add(tf.layers.dense({ units: 32, activation: 'relu' }));
-  model.add(tf.layers.dropout({ rate: 0.1 }));
-  model.add(tf.layers.dense({ units: outputDim }));
+  let x = tf.layers.dense({ units: 32, activation: 'relu' }).apply(encoded) as Layer;
+  x = tf.layers.dropout({ rate: dropout / 2 }).apply(x) as Layer;
+  const output = tf.layers.dense({ units: outputDim }).apply(x) as Layer;
 
-  return model;
+  return tf.model({ inputs: input, outputs: output });
+}
+
+/**
+ * Trainable weights in the network `config` would train, for data with or without waves.
+ * Builds the model to count them, so keep it off hot paths.
+ */
+export function countModelParameters(config: ModelConfig, useWaves: boolean): number {
+  const [sample] = addTimeFeatures(
+    [{ timestamp: 0, windSpeed: 0, windGusts: 0, windDirection: 0 }],
+    config.timeFeatures ?? NO_TIME_FEATURES,
+    config.location ?? null
+  );
+  const horizon = config.forecastMode === 'direct' ? config.predictionSteps : 1;
+  const model = createModel(
+    toFeatureVector(sample, useWaves, !!config.tideStation).length,
+    toTargetVector(sample, useWaves).length * horizon,
+    config.timeSteps,
+    config
+  );
+  const count = model.countParams();
+  model.dispose();
+  return count;
 }
 
 export function calculateR2Score(actuals: number[], predictions: number[]): number {
@@ -161,29 +462,149 @@ export function calculateR2Score(actuals: number[], predictions: number[]): numb
   return 1 - residualSS / totalSS;
 }
 
-export async function trainModel(
-  historicalData: WeatherData[],
-  config: ModelConfig
-): Promise<{
+// Walk-forward validation: the most recent share of forecast origins is cut into
+// consecutive blocks, and each fold trains on everything before its block
+const VALIDATION_FOLDS = 3;
+const VALIDATION_FRACTION = 0.3;
+const EARLY_STOPPING_PATIENCE = 10;
+// Fine-tuning a base model takes a few epochs at a fraction of the learning rate, so the
+// spot's short history adjusts the regional weights rather than overwriting them
+const FINE_TUNE_EPOCHS = 10;
+const FINE_TUNE_RATE = 0.3;
+// Online updates: a couple of passes over the new windows at a tenth of the learning rate.
+// Inputs whose mean has moved by more than the drift threshold (in training standard
+// deviations), or an error on the new hours beyond the growth threshold times the
+// validation error, call for a full retrain instead.
+const ONLINE_EPOCHS = 2;
+const ONLINE_RATE = 0.1;
+const DRIFT_THRESHOLD = 1;
+const ERROR_GROWTH_THRESHOLD = 1.5;
+// Fewer new hours than this are too noisy to judge the error on
+const MIN_ONLINE_ERROR_HOURS = 6;
+
+// A fold model's first forecast hour next to what happened, both in physical units
+export interface ValidationPair {
+  timestamp: number;
+  predicted: WeatherData;
+  actual: WeatherData;
+}
+
+// A full forecast by a walk-forward fold model from an origin inside its validation block
+export interface ValidationForecast {
+  // Timestamp of the first forecast hour
+  origin: number;
+  // Start of the fold's validation block; the fold only trained on hours before it
+  foldStart: number;
+  forecast: WeatherData[];
+}
+
+/**
+ * Permutation importance of every input for `model` on a validation block: how much the
+ * one-hour-ahead wind speed RMSE rises when one input, or one hour of it, is shuffled between
+ * windows. Shuffling whole windows keeps each input's own sequence intact, so only its link to
+ * the target is broken.
+ */
+async function permutationImportance(
+  model: tf.LayersModel,
+  X: number[][][],
+  actualWindSpeeds: number[],
+  stats: DataStats,
+  layout: { feature: InputFeature; columns: number }[],
+  onFeature: (done: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<InputImportance> {
+  const rmseOf = async (inputs: number[][][]) => {
+    const predicted = tf.tidy(() => model.predict(tf.tensor3d(inputs)) as tf.Tensor);
+    const rows = (await predicted.array()) as number[][];
+    predicted.dispose();
+    const squaredErrors = rows.map((row, i) => {
+      const windSpeed = row[0] * stats.std.windSpeed + stats.mean.windSpeed;
+      return (windSpeed - actualWindSpeeds[i]) ** 2;
+    });
+    return Math.sqrt(squaredErrors.reduce((sum, e) => sum + e, 0) / squaredErrors.length);
+  };
+
+  // Fisher-Yates over the window indices
+  const shuffled = () => {
+    const order = X.map((_, i) => i);
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+    return order;
+  };
+
+  // Copy of X with the columns from `start` taken from other windows, at the given steps only
+  const permuted = (start: number, columns: number, steps: number[]) => {
+    const order = shuffled();
+    return X.map((window, w) =>
+      window.map((step, t) => {
+        if (!steps.includes(t)) return step;
+        const copy = [...step];
+        for (let c = start; c < start + columns; c++) copy[c] = X[order[w]][t][c];
+        return copy;
+      })
+    );
+  };
+
+  const baselineRmse = await rmseOf(X);
+  const timeSteps = X[0].length;
+  const allSteps = Array.from({ length: timeSteps }, (_, t) => t);
+
+  const features = [];
+  let start = 0;
+  for (const { feature, columns } of layout) {
+    signal?.throwIfAborted();
+    const importance = (await rmseOf(permuted(start, columns, allSteps))) - baselineRmse;
+    const byLag: number[] = [];
+    for (let lag = 0; lag < timeSteps; lag++) {
+      byLag.push((await rmseOf(permuted(start, columns, [timeSteps - 1 - lag]))) - baselineRmse);
+    }
+    features.push({ feature, importance, byLag });
+    start += columns;
+    onFeature(features.length, layout.length);
+  }
+
+  features.sort((a, b) => b.importance - a.importance);
+  return { baselineRmse, samples: X.length, features };
+}
+
+interface FitResult {
   model: tf.LayersModel;
   trainingLoss: number[];
   validationLoss: number[];
-  actuals: number[];
-  predictions: number[];
-}> {
-  const {
-    timeSteps = 24,
-    epochs = 50,
-    batchSize = 32,
-    learningRate = 0.001
-  } = config;
+  // Epoch (1-based) with the lowest validation loss, or the last one without validation
+  bestEpoch: number;
+}
+
+type Windows = { X: number[][][]; y: number[][] };
 
-  // Prepare data with normalization
-  const { inputs, targets, stats } = prepareTrainingData(historicalData, timeSteps);
+interface FitOptions {
+  timeSteps: number;
+  batchSize: number;
+  learningRate: number;
+  initialWeights: tf.LayersModel | null;
+}
 
-  // Create and compile model
-  const model = createModel(inputs.shape[2], targets.shape[1], timeSteps, config.useLightModel);
+/**
+ * Train a network, stopping early on the validation windows when there are any. It starts
+ * from `initialWeights` when given, which must come from a model built with the same config.
+ */
+async function fitNetwork(
+  train: Windows,
+  validation: Windows | null,
+  fitEpochs: number,
+  config: ModelConfig,
+  { timeSteps, batchSize, learningRate, initialWeights }: FitOptions,
+  onEpoch: (epoch: number, totalEpochs: number, loss: number) => void
+): Promise<FitResult> {
+  const inputs = tf.tensor3d(train.X);
+  const targets = tf.tensor2d(train.y);
+  const validationData: [tf.Tensor, tf.Tensor] | undefined = validation
+    ? [tf.tensor3d(validation.X), tf.tensor2d(validation.y)]
+    : undefined;
 
+  const model = createModel(inputs.shape[2], targets.shape[1], timeSteps, config);
   const optimizer = tf.train.adam(learningRate);
   model.compile({
     optimizer,
@@ -193,138 +614,807 @@ export async function trainModel(
 
   const trainingLoss: number[] = [];
   const validationLoss: number[] = [];
-
-  // Train model with early stopping
-  const validationSplit = 0.2;
-  const earlyStoppingPatience = 10;
   let bestLoss = Infinity;
-  let patienceCounter = 0;
+  let bestEpoch = 0;
 
-  for (let epoch = 0; epoch < epochs; epoch++) {
-    const { history } = await model.fit(inputs, targets, {
-      epochs: 1,
-      batchSize,
-      validationSplit,
-      shuffle: true
-    });
+  try {
+    if (initialWeights) model.setWeights(initialWeights.getWeights());
+    for (let epoch = 0; epoch < fitEpochs; epoch++) {
+      config.signal?.throwIfAborted();
+
+      const { history } = await model.fit(inputs, targets, {
+        epochs: 1,
+        batchSize,
+        validationData,
+        shuffle: true
+      });
 
-    // Extract loss values
-    let currentLoss = Infinity;
-    let currentValLoss = Infinity;
-    if (history && history.loss && history.loss.length > 0) {
-      currentLoss = history.loss[0] as number;
+      const currentLoss = (history.loss?.[0] as number) ?? Infinity;
       trainingLoss.push(currentLoss);
-    }
-    if (history && history.val_loss && history.val_loss.length > 0) {
-      currentValLoss = history.val_loss[0] as number;
-      validationLoss.push(currentValLoss);
-    }
+      onEpoch(epoch + 1, fitEpochs, currentLoss);
 
-    if (config.callbacks?.onProgress) {
-      config.callbacks.onProgress({
-        currentEpoch: epoch + 1,
-        totalEpochs: epochs,
-        loss: currentLoss,
-        stage: 'training'
-      });
-    }
+      if (!validationData) {
+        bestEpoch = epoch + 1;
+        continue;
+      }
 
-    // Early stopping check
-    if (currentValLoss < bestLoss) {
-      bestLoss = currentValLoss;
-      patienceCounter = 0;
-    } else {
-      patienceCounter++;
-      if (patienceCounter >= earlyStoppingPatience) {
+      const currentValLoss = (history.val_loss?.[0] as number) ?? Infinity;
+      validationLoss.push(currentValLoss);
+      if (currentValLoss < bestLoss) {
+        bestLoss = currentValLoss;
+        bestEpoch = epoch + 1;
+      } else if (epoch + 1 - bestEpoch >= EARLY_STOPPING_PATIENCE) {
         console.log('Early stopping triggered');
         break;
       }
     }
+  } catch (err) {
+    // Aborted or failed; the caller never gets the model, so release it here
+    model.dispose();
+    throw err;
+  } finally {
+    inputs.dispose();
+    targets.dispose();
+    validationData?.forEach((t) => t.dispose());
+    // The model doesn't own an optimizer passed in as an instance, so release its state here
+    optimizer.dispose();
   }
 
-  // Generate predictions on validation set
-  const validationSize = Math.floor(inputs.shape[0] * 0.2);
-  const validationInputs = inputs.slice(
-    [inputs.shape[0] - validationSize, 0, 0],
-    [validationSize, -1, -1]
+  return { model, trainingLoss, validationLoss, bestEpoch };
+}
+
+/**
+ * Run the walk-forward folds for `config`. Full forecasts from each validation block are
+ * only made `withForecasts`; the data and helpers are returned for training a final model.
+ * With a `base` model every fold is fine-tuned from its weights, in its normalisation.
+ */
+async function crossValidate(
+  historicalData: WeatherData[],
+  config: ModelConfig,
+  withForecasts: boolean,
+  base: TrainedModel | null = null
+) {
+  const {
+    timeSteps = 24,
+    batchSize = 32,
+    learningRate = 0.001,
+    predictionSteps = 24,
+    forecastMode = 'recursive'
+  } = config;
+  const epochs = base
+    ? Math.min(config.epochs ?? FINE_TUNE_EPOCHS, FINE_TUNE_EPOCHS)
+    : config.epochs ?? 50;
+
+  const trainingData = config.historyHours
+    ? historicalData.slice(-config.historyHours)
+    : historicalData;
+
+  const tideStation = config.tideStation ?? null;
+  const location = config.location ?? null;
+  // Sun elevation is left out when there is no spot to compute it for
+  const timeFeatures: TimeFeatures = {
+    ...(config.timeFeatures ?? NO_TIME_FEATURES),
+    sunElevation: !!config.timeFeatures?.sunElevation && !!location
+  };
+  const horizon = forecastMode === 'direct' ? predictionSteps : 1;
+  const records = addTimeFeatures(
+    addPressureTendency(addTideHeights(trainingData, tideStation)),
+    timeFeatures,
+    location
   );
-  const validationTargets = targets.slice(
-    [targets.shape[0] - validationSize, 0],
-    [validationSize, -1]
+  // A base model fixes the inputs; its wave block is kept even if this spot has no waves
+  const useWaves = base ? base.useWaves : hasWaveData(trainingData);
+
+  const windowsFor = (stats: DataStats, from: number, to: number) =>
+    buildWindows(
+      normalizeData(records, stats),
+      timeSteps,
+      horizon,
+      useWaves,
+      !!tideStation,
+      from,
+      to
+    );
+
+  const report = (status: string) => (epoch: number, totalEpochs: number, loss: number) =>
+    config.callbacks?.onProgress?.({
+      currentEpoch: epoch,
+      totalEpochs,
+      loss,
+      stage: 'training',
+      status
+    });
+
+  // Fold and final models start from the base model's weights when fine-tuning
+  const fit = (
+    train: Windows,
+    validation: Windows | null,
+    fitEpochs: number,
+    onEpoch: (epoch: number, totalEpochs: number, loss: number) => void
+  ) =>
+    fitNetwork(
+      train,
+      validation,
+      fitEpochs,
+      config,
+      {
+        timeSteps,
+        batchSize,
+        learningRate: base ? learningRate * FINE_TUNE_RATE : learningRate,
+        initialWeights: base?.model ?? null
+      },
+      onEpoch
+    );
+
+  // Forecast origins run from the first full input window to the last complete target
+  const firstOrigin = timeSteps;
+  const endOrigin = records.length - horizon + 1;
+  const blockSize = Math.floor(
+    ((endOrigin - firstOrigin) * VALIDATION_FRACTION) / VALIDATION_FOLDS
   );
+  if (blockSize < 1) {
+    throw new Error('Not enough contiguous hourly data to train the model');
+  }
 
-  const predictedTensor = model.predict(validationInputs) as tf.Tensor;
-  const predictedArray = (await predictedTensor.array()) as number[][];
-  const actualArray = (await validationTargets.array()) as number[][];
+  // Outputs per forecast hour; direct models repeat them for every hour
+  const outputSize = toTargetVector(records[0], useWaves).length;
+  if (
+    base &&
+    base.model.inputs[0].shape[2] !== toFeatureVector(records[0], useWaves, !!tideStation).length
+  ) {
+    throw new Error('The base model was trained on different inputs');
+  }
 
-  // Extract wind speed predictions and actuals for metrics (index 0 is wind speed)
-  const predictions = predictedArray.map((pred) => pred[0]);
-  const actuals = actualArray.map((actual) => actual[0]);
+  const folds: FoldMetrics[] = [];
+  const validationPairs: ValidationPair[] = [];
+  const validationForecasts: ValidationForecast[] = [];
+  let inputImportance: InputImportance | null = null;
+  let lastFold: FitResult | null = null;
 
-  // Dispose of tensors
-  inputs.dispose();
-  targets.dispose();
-  validationInputs.dispose();
-  validationTargets.dispose();
-  predictedTensor.dispose();
+  for (let k = 0; k < VALIDATION_FOLDS; k++) {
+    const validationStart = endOrigin - (VALIDATION_FOLDS - k) * blockSize;
+    const validationEnd = validationStart + blockSize;
 
-  // Attach stats and timeSteps to the model for later use
-  (model as any).stats = stats;
-  (model as any).timeSteps = timeSteps;
+    // Normalisation comes from the hours before the block only, so nothing about the
+    // validation period leaks into training. A base model brings its own.
+    const stats = base?.stats ?? calculateStats(records.slice(0, validationStart));
+    // Training targets must also end before the block starts
+    const train = windowsFor(stats, firstOrigin, validationStart - horizon + 1);
+    const validation = windowsFor(stats, validationStart, validationEnd);
+    if (train.X.length === 0 || validation.X.length === 0) continue;
 
-  return { model, trainingLoss, validationLoss, actuals, predictions };
+    const result = await fit(
+      train,
+      validation,
+      epochs,
+      report(`Validating fold ${k + 1}/${VALIDATION_FOLDS}`)
+    );
+
+    try {
+      const predictedTensor = tf.tidy(
+        () => result.model.predict(tf.tensor3d(validation.X)) as tf.Tensor
+      );
+      const predictedArray = (await predictedTensor.array()) as number[][];
+      predictedTensor.dispose();
+
+      // Every output of the first hour, back in physical units, against the raw record
+      const foldPairs = predictedArray.map((pred, w) => {
+        const actual = records[validation.origins[w]];
+        const predicted = denormalizePrediction(pred.slice(0, outputSize), stats, useWaves);
+        predicted.timestamp = actual.timestamp;
+        return { timestamp: actual.timestamp, predicted, actual };
+      });
+      const errors = foldPairs.map(
+        ({ predicted, actual }) => predicted.windSpeed - actual.windSpeed
+      );
+      folds.push({
+        fold: k + 1,
+        trainingSamples: train.X.length,
+        validationSamples: validation.X.length,
+        validationStart: records[validationStart].timestamp,
+        validationEnd: records[validationEnd - 1].timestamp,
+        rmse: Math.sqrt(errors.reduce((sum, e) => sum + e * e, 0) / errors.length),
+        mae: errors.reduce((sum, e) => sum + Math.abs(e), 0) / errors.length,
+        bestEpoch: result.bestEpoch
+      });
+      validationPairs.push(...foldPairs);
+
+      // Full forecasts from origins inside the block, scored the same way for both modes
+      if (withForecasts) {
+        const foldModel: TrainedModel = {
+          model: result.model,
+          stats,
+          timeSteps,
+          predictionSteps,
+          forecastMode,
+          useWaves,
+          tideStation,
+          timeFeatures,
+          location
+        };
+        validationForecasts.push(
+          ...(await forecastValidationBlock(
+            foldModel,
+            trainingData,
+            validationStart,
+            validationEnd
+          )).map(({ origin, forecast }) => ({
+            origin,
+            foldStart: records[validationStart].timestamp,
+            forecast
+          }))
+        );
+      }
+
+      // Attribution is costly, so it is only done for the most recent fold
+      if (withForecasts && k === VALIDATION_FOLDS - 1) {
+        const measured = report('Measuring input importance');
+        const lastLoss = result.trainingLoss[result.trainingLoss.length - 1];
+        inputImportance = await permutationImportance(
+          result.model,
+          validation.X,
+          foldPairs.map(({ actual }) => actual.windSpeed),
+          stats,
+          inputLayout(useWaves, !!tideStation, timeFeatures),
+          (done, total) => measured(done, total, lastLoss),
+          config.signal
+        );
+      }
+    } finally {
+      result.model.dispose();
+    }
+    lastFold = result;
+  }
+
+  if (!lastFold) {
+    throw new Error('Not enough contiguous hourly data to train the model');
+  }
+
+  return {
+    trainingData,
+    records,
+    useWaves,
+    tideStation,
+    timeFeatures,
+    location,
+    timeSteps,
+    predictionSteps,
+    forecastMode,
+    firstOrigin,
+    endOrigin,
+    windowsFor,
+    fit,
+    report,
+    folds,
+    validationPairs,
+    // Wind speed (m/s), the headline variable
+    actuals: validationPairs.map(({ actual }) => actual.windSpeed),
+    predictions: validationPairs.map(({ predicted }) => predicted.windSpeed),
+    validationForecasts,
+    inputImportance,
+    lastFold
+  };
 }
 
-export async function predictNextHours(
-  model: tf.LayersModel,
+/**
+ * Pooled one-hour-ahead wind speed RMSE (m/s) of `config` under walk-forward validation,
+ * without training a model for use. For comparing configurations.
+ */
+export async function validateModelConfig(
   historicalData: WeatherData[],
-  timeSteps: number
-): Promise<WeatherData[]> {
-  const stats = (model as any).stats as DataStats;
-  if (!stats) {
-    throw new Error('Model stats not found');
+  config: ModelConfig
+): Promise<{ rmse: number; folds: FoldMetrics[] }> {
+  const { actuals, predictions, folds } = await crossValidate(historicalData, config, false);
+  const squaredErrors = actuals.map((actual, i) => (predictions[i] - actual) ** 2);
+  return {
+    rmse: Math.sqrt(squaredErrors.reduce((sum, e) => sum + e, 0) / squaredErrors.length),
+    folds
+  };
+}
+
+/**
+ * Validate and train a model on the spot's history. With a `base` model, the folds and the
+ * final model are fine-tuned from its weights instead of starting from scratch.
+ */
+export async function trainModel(
+  historicalData: WeatherData[],
+  config: ModelConfig,
+  base: TrainedModel | null = null
+): Promise<{
+  model: TrainedModel;
+  trainingLoss: number[];
+  validationLoss: number[];
+  actuals: number[];
+  predictions: number[];
+  leadTimeRmse: number[];
+  folds: FoldMetrics[];
+  validationPairs: ValidationPair[];
+  validationForecasts: ValidationForecast[];
+  inputImportance: InputImportance | null;
+}> {
+  const {
+    trainingData,
+    records,
+    useWaves,
+    tideStation,
+    timeFeatures,
+    location,
+    timeSteps,
+    predictionSteps,
+    forecastMode,
+    firstOrigin,
+    endOrigin,
+    windowsFor,
+    fit,
+    report,
+    folds,
+    validationPairs,
+    actuals,
+    predictions,
+    validationForecasts,
+    inputImportance,
+    lastFold
+  } = await crossValidate(historicalData, config, true, base);
+
+  // The model in use sees all the data, for as many epochs as the folds found best
+  const stats = base?.stats ?? calculateStats(records);
+  const all = windowsFor(stats, firstOrigin, endOrigin);
+  const finalEpochs = Math.max(
+    1,
+    Math.round(folds.reduce((sum, f) => sum + f.bestEpoch, 0) / folds.length)
+  );
+  const final = await fit(all, null, finalEpochs, report('Training final model'));
+
+  const actualByHour = new Map(trainingData.map((d) => [d.timestamp, d]));
+  const leadTimeRmse = validationForecasts.length
+    ? Array.from({ length: predictionSteps }, (_, step) => {
+        const squaredErrors = validationForecasts.map(
+          ({ forecast }) =>
+            (forecast[step].windSpeed - actualByHour.get(forecast[step].timestamp)!.windSpeed) ** 2
+        );
+        return Math.sqrt(squaredErrors.reduce((sum, e) => sum + e, 0) / squaredErrors.length);
+      })
+    : [];
+
+  return {
+    model: {
+      model: final.model,
+      stats,
+      timeSteps,
+      predictionSteps,
+      forecastMode,
+      useWaves,
+      tideStation,
+      timeFeatures,
+      location
+    },
+    // Loss curves of the last fold, the one trained on the most data
+    trainingLoss: lastFold.trainingLoss,
+    validationLoss: lastFold.validationLoss,
+    actuals,
+    predictions,
+    leadTimeRmse,
+    folds,
+    validationPairs,
+    validationForecasts,
+    inputImportance
+  };
+}
+
+// History from one point of a region, for pretraining a base model
+export interface RegionalHistory {
+  location: { lat: number; lon: number };
+  data: WeatherData[];
+}
+
+/**
+ * Pretrain a base model on the history of several points in a region, pooled under one
+ * normalisation. `useWaves` comes from the spot it will be fine-tuned for, so the inputs
+ * line up; points without waves are given the regional mean. Tide is never an input: one
+ * station can't speak for points up to a grid cell apart.
+ */
+export async function trainBaseModel(
+  histories: RegionalHistory[],
+  config: ModelConfig,
+  useWaves: boolean
+): Promise<TrainedModel> {
+  const {
+    timeSteps = 24,
+    epochs = 50,
+    batchSize = 32,
+    learningRate = 0.001,
+    predictionSteps = 24,
+    forecastMode = 'recursive'
+  } = config;
+
+  // The same inputs the spot's own model would get, bar the tide
+  const timeFeatures: TimeFeatures = {
+    ...(config.timeFeatures ?? NO_TIME_FEATURES),
+    sunElevation: !!config.timeFeatures?.sunElevation && !!config.location
+  };
+  const horizon = forecastMode === 'direct' ? predictionSteps : 1;
+
+  const pointRecords = histories.map(({ location, data }) =>
+    addTimeFeatures(
+      addPressureTendency(config.historyHours ? data.slice(-config.historyHours) : data),
+      timeFeatures,
+      location
+    )
+  );
+  const stats = calculateStats(pointRecords.flat());
+  const windows = pointRecords.map((records) =>
+    buildWindows(
+      normalizeData(records, stats),
+      timeSteps,
+      horizon,
+      useWaves,
+      false,
+      0,
+      records.length - horizon + 1
+    )
+  );
+  const all = { X: windows.flatMap((w) => w.X), y: windows.flatMap((w) => w.y) };
+  if (all.X.length === 0) {
+    throw new Error('Not enough regional history to pretrain a model');
   }
 
-  const predictionSteps = 24; // Predict next 24 hours
-
-  // Prepare initial input data
-  const normalizedData = normalizeData(historicalData.slice(-timeSteps), stats);
-  const predictions: WeatherData[] = [];
-  
-  let currentInput = normalizedData;
-
-  // Generate predictions for each hour
-  for (let i = 0; i < predictionSteps; i++) {
-    const inputSequence = currentInput.map((d) => [
-      d.windSpeed,
-      d.windGusts,
-      Math.sin((d.windDirection * Math.PI) / 180),
-      Math.cos((d.windDirection * Math.PI) / 180),
-      d.waveHeight || 0,
-      d.wavePeriod || 0,
-      Math.sin(((d.swellDirection || 0) * Math.PI) / 180),
-      Math.cos(((d.swellDirection || 0) * Math.PI) / 180)
-    ]);
-
-    const inputTensor = tf.tensor3d([inputSequence]);
-    const predictionTensor = model.predict(inputTensor) as tf.Tensor;
-    const predictionArray = await predictionTensor.array();
-
-    if (!Array.isArray(predictionArray) || !Array.isArray(predictionArray[0])) {
-      throw new Error('Invalid prediction format');
+  const { model } = await fitNetwork(
+    all,
+    null,
+    epochs,
+    config,
+    { timeSteps, batchSize, learningRate, initialWeights: null },
+    (epoch, totalEpochs, loss) =>
+      config.callbacks?.onProgress?.({
+        currentEpoch: epoch,
+        totalEpochs,
+        loss,
+        stage: 'training',
+        status: `Pretraining regional model on ${histories.length} points`
+      })
+  );
+
+  return {
+    model,
+    stats,
+    timeSteps,
+    predictionSteps,
+    forecastMode,
+    useWaves,
+    tideStation: null,
+    timeFeatures,
+    location: null
+  };
+}
+
+// An incremental update of a saved model with the hours observed since it last trained
+export interface OnlineUpdate {
+  // Observed hours the model had not seen yet
+  newHours: number;
+  // Windows it was fitted on; zero when there was nothing new or a full retrain is due
+  windows: number;
+  // One-hour-ahead wind speed RMSE (m/s) on the new hours, before updating; NaN if too few
+  rmse: number;
+  // Largest move of an input's mean since training, in training standard deviations
+  drift: number;
+  driftField: string | null;
+  // Set when drift or error calls for a full retrain instead; the model is then left as is
+  retrainReason: string | null;
+}
+
+/**
+ * Fit `trained` in place on the windows whose targets were observed after `since`, with a
+ * few epochs at a small learning rate. Its normalisation stays fixed, since the weights
+ * depend on it; instead the data's current stats are compared with it, and a full retrain is
+ * asked for once they have drifted or the error on the new hours has grown too far past
+ * `validationRmse`.
+ */
+export async function updateModel(
+  trained: TrainedModel,
+  historicalData: WeatherData[],
+  since: number,
+  config: ModelConfig,
+  validationRmse: number | null
+): Promise<OnlineUpdate> {
+  const { batchSize = 32, learningRate = 0.001 } = config;
+  const { stats, timeSteps, predictionSteps, forecastMode, useWaves, tideStation } = trained;
+
+  const trainingData = config.historyHours
+    ? historicalData.slice(-config.historyHours)
+    : historicalData;
+  const records = addTimeFeatures(
+    addPressureTendency(addTideHeights(trainingData, tideStation)),
+    trained.timeFeatures,
+    trained.location
+  );
+
+  // Only inputs the model reads, and only where training gave them a real spread and the
+  // recent data has values to compare
+  const current = calculateStats(records);
+  const observed = (field: string) =>
+    records.some((d) => (d as any)[field] !== undefined && !isNaN((d as any)[field]));
+  const driftFields = inputLayout(useWaves, !!tideStation, trained.timeFeatures)
+    .map(({ feature }) => feature as string)
+    .filter((field) => field in stats.mean && !stats.flat?.includes(field) && observed(field));
+  let drift = 0;
+  let driftField: string | null = null;
+  for (const field of driftFields) {
+    const shift = Math.abs(current.mean[field] - stats.mean[field]) / stats.std[field];
+    if (shift > drift) {
+      drift = shift;
+      driftField = field;
     }
+  }
+
+  const firstNew = records.findIndex((d) => d.timestamp > since);
+  const newHours = firstNew === -1 ? 0 : records.length - firstNew;
+  // Every window with a target among the new hours
+  const horizon = forecastMode === 'direct' ? predictionSteps : 1;
+  const { X, y, origins } =
+    firstNew === -1
+      ? { X: [], y: [], origins: [] }
+      : buildWindows(
+          normalizeData(records, stats),
+          timeSteps,
+          horizon,
+          useWaves,
+          !!tideStation,
+          firstNew - horizon + 1,
+          records.length
+        );
+
+  // Error on first hours the model has not been fitted on, before it sees them
+  let rmse = NaN;
+  const unseen = origins.flatMap((origin, w) => (origin >= firstNew ? [w] : []));
+  if (unseen.length >= MIN_ONLINE_ERROR_HOURS) {
+    const predicted = tf.tidy(
+      () => trained.model.predict(tf.tensor3d(unseen.map((w) => X[w]))) as tf.Tensor
+    );
+    const rows = (await predicted.array()) as number[][];
+    predicted.dispose();
+    const squaredErrors = rows.map((row, i) => {
+      const windSpeed = row[0] * stats.std.windSpeed + stats.mean.windSpeed;
+      return (windSpeed - records[origins[unseen[i]]].windSpeed) ** 2;
+    });
+    rmse = Math.sqrt(squaredErrors.reduce((sum, e) => sum + e, 0) / squaredErrors.length);
+  }
+
+  let retrainReason: string | null = null;
+  if (drift > DRIFT_THRESHOLD) {
+    retrainReason =
+      `${driftField} has moved ${drift.toFixed(1)} standard deviations ` +
+      'from what the model was trained on';
+  } else if (validationRmse && rmse > validationRmse * ERROR_GROWTH_THRESHOLD) {
+    retrainReason =
+      `wind speed error on the new hours (${rmse.toFixed(2)} m/s) is over ` +
+      `${ERROR_GROWTH_THRESHOLD}× the validation error`;
+  }
 
-    // Denormalize prediction
-    const prediction = denormalizePrediction(predictionArray[0], stats);
-    predictions.push(prediction);
+  if (retrainReason || X.length === 0) {
+    return { newHours, windows: 0, rmse, drift, driftField, retrainReason };
+  }
 
-    // Update input for next prediction
-    currentInput = [...currentInput.slice(1), normalizeData([prediction], stats)[0]];
+  config.signal?.throwIfAborted();
+  const inputs = tf.tensor3d(X);
+  const targets = tf.tensor2d(y);
+  const optimizer = tf.train.adam(learningRate * ONLINE_RATE);
+  try {
+    trained.model.compile({ optimizer, loss: 'meanSquaredError' });
+    await trained.model.fit(inputs, targets, {
+      epochs: ONLINE_EPOCHS,
+      batchSize: Math.min(batchSize, X.length),
+      shuffle: true
+    });
+  } finally {
+    inputs.dispose();
+    targets.dispose();
+    optimizer.dispose();
+  }
 
-    // Cleanup tensors
+  return { newHours, windows: X.length, rmse, drift, driftField, retrainReason };
+}
+
+/**
+ * Forecast from the end of each window in one batch. Recursive models run one hour at a
+ * time, recomputing derived features (pressure tendency, tide, time of day and year, sun
+ * elevation) from the growing window, so each predicted hour gets its own;
+ * direct models return every hour from a single pass. With `keepDropout` each forecast is
+ * a Monte Carlo dropout sample rather than the deterministic output.
+ */
+async function forecastBatch(
+  trained: TrainedModel,
+  windows: WeatherData[][],
+  keepDropout = false
+): Promise<WeatherData[][]> {
+  const { model, stats, timeSteps, predictionSteps, forecastMode, useWaves, tideStation } =
+    trained;
+
+  const toInputSequence = (window: WeatherData[]) =>
+    normalizeData(
+      addTimeFeatures(
+        addPressureTendency(addTideHeights(window, tideStation)).slice(-timeSteps),
+        trained.timeFeatures,
+        trained.location
+      ),
+      stats
+    ).map((d) => toFeatureVector(d, useWaves, !!tideStation));
+
+  const runModel = async (batch: WeatherData[][]): Promise<number[][]> => {
+    const inputTensor = tf.tensor3d(batch.map(toInputSequence));
+    // Dropout stays active in training mode, which makes each pass a different sample
+    const predictionTensor = (
+      keepDropout ? model.apply(inputTensor, { training: true }) : model.predict(inputTensor)
+    ) as tf.Tensor;
+    const predictionArray = (await predictionTensor.array()) as number[][];
     inputTensor.dispose();
     predictionTensor.dispose();
+    return predictionArray;
+  };
+
+  // Keep a few extra raw hours so derived features can be recomputed each step
+  let current = windows.map((w) => w.slice(-(timeSteps + PRESSURE_TENDENCY_HOURS)));
+  const forecasts: WeatherData[][] = windows.map(() => []);
+
+  if (forecastMode === 'direct') {
+    const outputs = await runModel(current);
+    const outputSize = outputs[0].length / predictionSteps;
+    outputs.forEach((output, k) => {
+      const last = current[k][current[k].length - 1].timestamp;
+      for (let step = 0; step < predictionSteps; step++) {
+        const prediction = denormalizePrediction(
+          output.slice(step * outputSize, (step + 1) * outputSize),
+          stats,
+          useWaves
+        );
+        prediction.timestamp = last + (step + 1) * HOUR_MS;
+        forecasts[k].push(prediction);
+      }
+    });
+    return forecasts;
+  }
+
+  for (let step = 0; step < predictionSteps; step++) {
+    const outputs = await runModel(current);
+    current = current.map((window, k) => {
+      const prediction = denormalizePrediction(outputs[k], stats, useWaves);
+      prediction.timestamp = window[window.length - 1].timestamp + HOUR_MS;
+      forecasts[k].push(prediction);
+      // Update input for next prediction
+      return [...window.slice(1), prediction];
+    });
   }
 
+  return forecasts;
+}
+
+export async function predictNextHours(
+  trained: TrainedModel,
+  historicalData: WeatherData[]
+): Promise<WeatherData[]> {
+  const [predictions] = await forecastBatch(trained, [historicalData]);
   return predictions;
 }
+
+const MC_DROPOUT_SAMPLES = 30;
+
+// A sample within this many m/s (about 3 knots) of the median counts towards confidence
+const CONFIDENCE_TOLERANCE_MS = 1.5;
+
+const SCALAR_QUANTILE_FIELDS: QuantileField[] = [
+  'windSpeed',
+  'windGusts',
+  'waveHeight',
+  'wavePeriod',
+  'temperature',
+  'precipitation',
+  'pressure',
+  'cloudCover',
+  'windSpeed80m'
+];
+const DIRECTION_QUANTILE_FIELDS: QuantileField[] = [
+  'windDirection',
+  'swellDirection',
+  'windDirection80m'
+];
+
+const quantile = (sorted: number[], q: number) => {
+  const position = (sorted.length - 1) * q;
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+const quantileBand = (values: number[]): QuantileBand => {
+  const sorted = [...values].sort((a, b) => a - b);
+  return { p10: quantile(sorted, 0.1), p50: quantile(sorted, 0.5), p90: quantile(sorted, 0.9) };
+};
+
+// Directions: quantiles of the offsets from the circular mean, so 350° and 10° are 20° apart
+const directionBand = (degrees: number[]): QuantileBand => {
+  const mean = fromSinCos(
+    degrees.reduce((sum, d) => sum + Math.sin(toRadians(d)), 0),
+    degrees.reduce((sum, d) => sum + Math.cos(toRadians(d)), 0)
+  );
+  const offsets = degrees.map((d) => ((((d - mean) % 360) + 540) % 360) - 180);
+  const band = quantileBand(offsets);
+  return { p10: mean + band.p10, p50: (mean + band.p50 + 360) % 360, p90: mean + band.p90 };
+};
+
+/**
+ * Per-hour uncertainty from Monte Carlo dropout: the forecast is run many times with the
+ * model's dropout layers left on, and the spread of the samples gives p10/p50/p90 for each
+ * variable plus a confidence, the share of samples within a few knots of the median wind.
+ * This reflects the model's own uncertainty, not errors in the input data.
+ */
+export async function predictUncertainty(
+  trained: TrainedModel,
+  historicalData: WeatherData[],
+  samples = MC_DROPOUT_SAMPLES
+): Promise<{ quantiles: PredictionQuantiles[]; confidence: number[] }> {
+  const runs = await forecastBatch(
+    trained,
+    Array.from({ length: samples }, () => historicalData),
+    true
+  );
+
+  const quantiles = runs[0].map((_, hour) => {
+    const hourSamples = runs.map((run) => run[hour]);
+    const bands: PredictionQuantiles = {};
+    SCALAR_QUANTILE_FIELDS.forEach((field) => {
+      const values = hourSamples.map((d) => d[field]).filter((v): v is number => v !== undefined);
+      if (values.length) bands[field] = quantileBand(values);
+    });
+    DIRECTION_QUANTILE_FIELDS.forEach((field) => {
+      const values = hourSamples.map((d) => d[field]).filter((v): v is number => v !== undefined);
+      if (values.length) bands[field] = directionBand(values);
+    });
+    return bands;
+  });
+
+  const confidence = quantiles.map((bands, hour) => {
+    const median = bands.windSpeed?.p50 ?? 0;
+    const near = runs.filter(
+      (run) => Math.abs(run[hour].windSpeed - median) <= CONFIDENCE_TOLERANCE_MS
+    );
+    return near.length / runs.length;
+  });
+
+  return { quantiles, confidence };
+}
+
+// Forecast origins are taken every few hours within a validation block
+const EVALUATION_STRIDE_HOURS = 3;
+const MAX_EVALUATION_ORIGINS = 16;
+
+/**
+ * Full forecasts started at regular origins between hours `from` and `to`. Only origins
+ * with a contiguous input window and a complete set of actuals are used.
+ */
+async function forecastValidationBlock(
+  trained: TrainedModel,
+  data: WeatherData[],
+  from: number,
+  to: number
+): Promise<{ origin: number; forecast: WeatherData[] }[]> {
+  const { timeSteps, predictionSteps } = trained;
+  const context = timeSteps + PRESSURE_TENDENCY_HOURS;
+
+  const origins: number[] = [];
+  for (
+    let t = Math.max(context, from);
+    t < to && t + predictionSteps <= data.length;
+    t += EVALUATION_STRIDE_HOURS
+  ) {
+    const span = data[t + predictionSteps - 1].timestamp - data[t - context].timestamp;
+    if (span === (context + predictionSteps - 1) * HOUR_MS) origins.push(t);
+  }
+  const used = origins.slice(-MAX_EVALUATION_ORIGINS);
+  if (used.length === 0) return [];
+
+  const forecasts = await forecastBatch(
+    trained,
+    used.map((t) => data.slice(t - context, t))
+  );
+
+  return used.map((t, k) => ({ origin: data[t].timestamp, forecast: forecasts[k] }));
+}
@@ -0,0 +1,186 @@
+import * as tf from '@tensorflow/tfjs';
+import type { WeatherData } from './types';
+
+// Model Output Statistics: learn how the NWP forecast for this spot tends to be wrong,
+// from past forecasts paired with what was analysed afterwards, and correct new forecasts.
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Previous-run lead times trained on. The first day ahead is corrected as a day-1 forecast
+// and the second as day-2; there is no shorter lead in the previous-runs record.
+export const MOS_LEAD_DAYS = [1, 2];
+
+const MIN_TRAINING_PAIRS = 48;
+const HOLDOUT_FRACTION = 0.2;
+const EPOCHS = 60;
+const BATCH_SIZE = 32;
+
+export interface MosPair {
+  forecast: WeatherData;
+  actual: WeatherData;
+  leadDays: number;
+}
+
+export interface MosSummary {
+  trainingPairs: number;
+  // Wind speed RMSE (m/s) on the most recent pairs, which are held out of training
+  rawRmse: number;
+  correctedRmse: number;
+}
+
+interface MosScaling {
+  speedMean: number;
+  speedStd: number;
+  gustMean: number;
+  gustStd: number;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+const fromSinCos = (sin: number, cos: number) =>
+  ((Math.atan2(sin, cos) * (180 / Math.PI)) + 360) % 360;
+
+// Gusts are sometimes missing from a previous run; fall back to the mean wind
+const gustsOf = (d: WeatherData) => (isNaN(d.windGusts) ? d.windSpeed : d.windGusts);
+
+/** Join past forecasts to the actuals for the same hour. */
+export function buildMosPairs(
+  previousForecasts: { leadDays: number; data: WeatherData[] }[],
+  actuals: WeatherData[]
+): MosPair[] {
+  const actualByHour = new Map(actuals.map((d) => [d.timestamp, d]));
+
+  return previousForecasts
+    .flatMap(({ leadDays, data }) =>
+      data.flatMap((forecast) => {
+        const actual = actualByHour.get(forecast.timestamp);
+        return actual ? [{ forecast, actual, leadDays }] : [];
+      })
+    )
+    .sort((a, b) => a.forecast.timestamp - b.forecast.timestamp);
+}
+
+// Forecast values, time of day (biases such as sea breezes are diurnal) and lead
+const toFeatures = (forecast: WeatherData, leadDays: number, scaling: MosScaling): number[] => {
+  const hour = toRadians((new Date(forecast.timestamp).getUTCHours() / 24) * 360);
+  return [
+    (forecast.windSpeed - scaling.speedMean) / scaling.speedStd,
+    (gustsOf(forecast) - scaling.gustMean) / scaling.gustStd,
+    Math.sin(toRadians(forecast.windDirection)),
+    Math.cos(toRadians(forecast.windDirection)),
+    Math.sin(hour),
+    Math.cos(hour),
+    leadDays - 1.5
+  ];
+};
+
+// Residuals: what has to be added to the forecast to get the actual
+const toTargets = ({ forecast, actual }: MosPair, scaling: MosScaling): number[] => [
+  (actual.windSpeed - forecast.windSpeed) / scaling.speedStd,
+  (gustsOf(actual) - gustsOf(forecast)) / scaling.gustStd,
+  Math.sin(toRadians(actual.windDirection)) - Math.sin(toRadians(forecast.windDirection)),
+  Math.cos(toRadians(actual.windDirection)) - Math.cos(toRadians(forecast.windDirection))
+];
+
+const applyResiduals = (
+  forecast: WeatherData,
+  residuals: number[],
+  scaling: MosScaling
+): WeatherData => ({
+  ...forecast,
+  windSpeed: Math.max(0, forecast.windSpeed + residuals[0] * scaling.speedStd),
+  windGusts: Math.max(0, gustsOf(forecast) + residuals[1] * scaling.gustStd),
+  windDirection: fromSinCos(
+    Math.sin(toRadians(forecast.windDirection)) + residuals[2],
+    Math.cos(toRadians(forecast.windDirection)) + residuals[3]
+  )
+});
+
+const meanStd = (values: number[]) => {
+  const mean = values.reduce((sum, v) => sum + v, 0) / values.length;
+  const std = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / values.length);
+  return { mean, std: std || 1 };
+};
+
+const rmse = (errors: number[]) =>
+  Math.sqrt(errors.reduce((sum, e) => sum + e * e, 0) / errors.length);
+
+/**
+ * Learn forecast corrections from past pairs and apply them to `forecast`. The most recent
+ * pairs are held out to report raw against corrected error; the model is disposed before
+ * returning since only its output is kept.
+ */
+export async function correctForecast(
+  pairs: MosPair[],
+  forecast: WeatherData[],
+  issuedAt: number
+): Promise<{ corrected: WeatherData[]; summary: MosSummary }> {
+  if (pairs.length < MIN_TRAINING_PAIRS) {
+    throw new Error('Not enough past forecasts to learn corrections');
+  }
+
+  const speed = meanStd(pairs.map((p) => p.forecast.windSpeed));
+  const gusts = meanStd(pairs.map((p) => gustsOf(p.forecast)));
+  const scaling: MosScaling = {
+    speedMean: speed.mean,
+    speedStd: speed.std,
+    gustMean: gusts.mean,
+    gustStd: gusts.std
+  };
+
+  const holdoutSize = Math.floor(pairs.length * HOLDOUT_FRACTION);
+  const training = pairs.slice(0, pairs.length - holdoutSize);
+  const holdout = pairs.slice(pairs.length - holdoutSize);
+
+  const model = tf.sequential();
+  model.add(tf.layers.dense({ units: 16, activation: 'relu', inputShape: [7] }));
+  model.add(tf.layers.dense({ units: 4 }));
+  const optimizer = tf.train.adam(0.005);
+  model.compile({ optimizer, loss: 'meanSquaredError' });
+
+  const predictResiduals = async (inputs: number[][]): Promise<number[][]> => {
+    if (inputs.length === 0) return [];
+    const inputTensor = tf.tensor2d(inputs);
+    const outputTensor = model.predict(inputTensor) as tf.Tensor;
+    const outputs = (await outputTensor.array()) as number[][];
+    inputTensor.dispose();
+    outputTensor.dispose();
+    return outputs;
+  };
+
+  const inputs = tf.tensor2d(training.map((p) => toFeatures(p.forecast, p.leadDays, scaling)));
+  const targets = tf.tensor2d(training.map((p) => toTargets(p, scaling)));
+
+  try {
+    await model.fit(inputs, targets, { epochs: EPOCHS, batchSize: BATCH_SIZE, shuffle: true });
+
+    const holdoutResiduals = await predictResiduals(
+      holdout.map((p) => toFeatures(p.forecast, p.leadDays, scaling))
+    );
+    const summary: MosSummary = {
+      trainingPairs: training.length,
+      rawRmse: rmse(holdout.map((p) => p.forecast.windSpeed - p.actual.windSpeed)),
+      correctedRmse: rmse(
+        holdout.map(
+          (p, i) =>
+            applyResiduals(p.forecast, holdoutResiduals[i], scaling).windSpeed -
+            p.actual.windSpeed
+        )
+      )
+    };
+
+    const leadOf = (d: WeatherData) =>
+      d.timestamp - issuedAt < 24 * HOUR_MS ? MOS_LEAD_DAYS[0] : MOS_LEAD_DAYS[1];
+    const residuals = await predictResiduals(
+      forecast.map((d) => toFeatures(d, leadOf(d), scaling))
+    );
+    const corrected = forecast.map((d, i) => applyResiduals(d, residuals[i], scaling));
+
+    return { corrected, summary };
+  } finally {
+    inputs.dispose();
+    targets.dispose();
+    optimizer.dispose();
+    model.dispose();
+  }
+}
@@ -0,0 +1,127 @@
+import type {
+  CustomPreset,
+  HyperParameters,
+  ModelArchitecture,
+  PerformancePreset
+} from './types';
+
+// Hyperparameters behind each preset. The built-in ones are fixed; custom ones come out of
+// the hyperparameter search and are kept in localStorage.
+
+const STORAGE_KEY = 'custom-presets';
+
+export const ARCHITECTURES: { value: ModelArchitecture; label: string; description: string }[] = [
+  {
+    value: 'lstm',
+    label: 'LSTM',
+    description: 'Stacked long short-term memory layers; the long-standing default'
+  },
+  {
+    value: 'gru',
+    label: 'GRU',
+    description: 'Gated recurrent units: fewer weights than an LSTM, often trains faster'
+  },
+  {
+    value: 'tcn',
+    label: 'Temporal CNN',
+    description: 'Dilated causal convolutions with residual connections; no recurrence'
+  },
+  {
+    value: 'transformer',
+    label: 'Attention',
+    description: 'Small self-attention encoder that weighs every hour of the window'
+  }
+];
+
+export const PRESET_HYPERPARAMETERS: { [preset in PerformancePreset]: HyperParameters } = {
+  fast: {
+    epochs: 20,
+    batchSize: 64,
+    learningRate: 0.001,
+    timeSteps: 8,
+    units: 32,
+    dropout: 0.2
+  },
+  balanced: {
+    epochs: 50,
+    batchSize: 32,
+    learningRate: 0.001,
+    timeSteps: 16,
+    units: 64,
+    dropout: 0.2
+  },
+  accurate: {
+    epochs: 100,
+    batchSize: 16,
+    learningRate: 0.001,
+    timeSteps: 24,
+    units: 64,
+    dropout: 0.2
+  }
+};
+
+// The fast preset uses the single-layer network; searched presets use the full one
+export function usesLightModel(preset: PerformancePreset, custom: CustomPreset | null): boolean {
+  return !custom && preset === 'fast';
+}
+
+/** The custom preset's hyperparameters when one is chosen, else the built-in preset's. */
+export function resolveHyperParameters(
+  preset: PerformancePreset,
+  custom: CustomPreset | null
+): HyperParameters {
+  return custom ? custom.params : PRESET_HYPERPARAMETERS[preset];
+}
+
+export function loadCustomPresets(): CustomPreset[] {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      const presets = JSON.parse(stored);
+      if (Array.isArray(presets)) return presets;
+    }
+  } catch (error) {
+    console.warn('Could not read custom presets:', error);
+  }
+  return [];
+}
+
+function storeCustomPresets(presets: CustomPreset[]) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(presets));
+}
+
+/** Save a new preset under `name` and return the updated list, newest last. */
+export function saveCustomPreset(
+  name: string,
+  params: HyperParameters,
+  validationRmse?: number
+): CustomPreset[] {
+  const createdAt = Date.now();
+  const preset: CustomPreset = {
+    id: `${createdAt.toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    createdAt,
+    params,
+    validationRmse
+  };
+  const presets = [...loadCustomPresets(), preset];
+  storeCustomPresets(presets);
+  return presets;
+}
+
+export function deleteCustomPreset(id: string): CustomPreset[] {
+  const presets = loadCustomPresets().filter((preset) => preset.id !== id);
+  storeCustomPresets(presets);
+  return presets;
+}
+
+export function describeHyperParameters({
+  timeSteps,
+  units,
+  dropout,
+  learningRate,
+  batchSize
+}: HyperParameters): string {
+  const rate = learningRate.toPrecision(2);
+  return `${timeSteps}h window, ${units} units, dropout ${dropout}, lr ${rate}, batch ${batchSize}`;
+}
@@ -0,0 +1,197 @@
+import * as tf from '@tensorflow/tfjs';
+import type { ForecastPair, PredictionChunk, WindSample } from './types';
+
+// Chance that an hour is rideable. The rider sets what rideable means; a small classifier,
+// trained on how the model's own walk-forward forecasts turned out, learns how far a
+// forecast can be trusted to meet it at each lead time and hour of the day.
+
+const STORAGE_KEY = 'rideability-settings';
+
+const MIN_TRAINING_PAIRS = 48;
+const HOLDOUT_FRACTION = 0.2;
+const EPOCHS = 40;
+const BATCH_SIZE = 32;
+// Wind margins are divided by this (m/s) to keep the features near unit scale
+const WIND_SCALE = 3;
+const MAX_GUST_FACTOR = 3;
+
+export interface RideabilitySettings {
+  // Mean wind range (m/s)
+  minWind: number;
+  maxWind: number;
+  // Highest ratio of gusts to mean wind that still rides well
+  maxGustFactor: number;
+  // Directions the wind may come from, clockwise from `from` to `to`; null for any
+  sector: { from: number; to: number } | null;
+}
+
+// Roughly 12 to 30 knots, the usual wingfoiling range
+export const DEFAULT_RIDEABILITY: RideabilitySettings = {
+  minWind: 6,
+  maxWind: 15,
+  maxGustFactor: 1.6,
+  sector: null
+};
+
+export interface RideabilityHour {
+  startTime: number;
+  probability: number;
+}
+
+export interface RideabilitySummary {
+  trainingPairs: number;
+  // Share of held-out hours that were rideable
+  positiveRate: number;
+  // Brier score on the held-out hours, and that of always forecasting the positive rate
+  brier: number;
+  climatologyBrier: number;
+}
+
+export interface RideabilityResult {
+  hours: RideabilityHour[];
+  summary: RideabilitySummary;
+}
+
+export function loadRideabilitySettings(): RideabilitySettings {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return { ...DEFAULT_RIDEABILITY, ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.warn('Could not read rideability settings:', error);
+  }
+  return DEFAULT_RIDEABILITY;
+}
+
+export function saveRideabilitySettings(settings: RideabilitySettings) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+}
+
+// Gusts are sometimes missing; fall back to the mean wind
+const gustFactorOf = ({ windSpeed, windGusts }: WindSample) =>
+  windSpeed > 0
+    ? Math.min(MAX_GUST_FACTOR, (isNaN(windGusts) ? windSpeed : windGusts) / windSpeed)
+    : MAX_GUST_FACTOR;
+
+// Degrees inside the sector from its nearer edge; negative outside it
+const sectorMargin = (direction: number, { from, to }: { from: number; to: number }) => {
+  const width = (((to - from) % 360) + 360) % 360 || 360;
+  const offset = (((direction - from) % 360) + 360) % 360;
+  if (offset <= width) return Math.min(offset, width - offset);
+  return -Math.min(offset - width, 360 - offset);
+};
+
+export function isRideable(d: WindSample, settings: RideabilitySettings): boolean {
+  return (
+    d.windSpeed >= settings.minWind &&
+    d.windSpeed <= settings.maxWind &&
+    gustFactorOf(d) <= settings.maxGustFactor &&
+    (!settings.sector || sectorMargin(d.windDirection, settings.sector) >= 0)
+  );
+}
+
+// How the forecast hour sits against each threshold, plus time of day and lead
+const toFeatures = (
+  d: WindSample,
+  timestamp: number,
+  lead: number,
+  settings: RideabilitySettings
+): number[] => {
+  const hour = (2 * Math.PI * new Date(timestamp).getUTCHours()) / 24;
+  return [
+    (d.windSpeed - settings.minWind) / WIND_SCALE,
+    (settings.maxWind - d.windSpeed) / WIND_SCALE,
+    settings.maxGustFactor - gustFactorOf(d),
+    settings.sector ? sectorMargin(d.windDirection, settings.sector) / 90 : 1,
+    isRideable(d, settings) ? 1 : 0,
+    Math.sin(hour),
+    Math.cos(hour),
+    lead / 24
+  ];
+};
+
+/**
+ * Train the classifier on `pairs` and give the probability of rideable conditions for each
+ * predicted hour. The most recent pairs are held out to score it; the model is disposed
+ * before returning since only its output is kept. Throws the signal's reason once `signal`
+ * is aborted, after the current epoch.
+ */
+export async function classifyRideability(
+  pairs: ForecastPair[],
+  predictions: PredictionChunk[],
+  settings: RideabilitySettings,
+  signal: AbortSignal
+): Promise<RideabilityResult> {
+  signal.throwIfAborted();
+  if (pairs.length < MIN_TRAINING_PAIRS) {
+    throw new Error('Not enough validation forecasts to learn rideability');
+  }
+
+  const sorted = [...pairs].sort((a, b) => a.timestamp - b.timestamp);
+  const holdoutSize = Math.floor(sorted.length * HOLDOUT_FRACTION);
+  const training = sorted.slice(0, sorted.length - holdoutSize);
+  const holdout = sorted.slice(sorted.length - holdoutSize);
+  const featuresOf = (p: ForecastPair) => toFeatures(p.predicted, p.timestamp, p.lead, settings);
+  const labelOf = (p: ForecastPair): number => (isRideable(p.actual, settings) ? 1 : 0);
+
+  const model = tf.sequential();
+  model.add(tf.layers.dense({ units: 8, activation: 'relu', inputShape: [8] }));
+  model.add(tf.layers.dense({ units: 1, activation: 'sigmoid' }));
+  const optimizer = tf.train.adam(0.01);
+  model.compile({ optimizer, loss: 'binaryCrossentropy' });
+
+  const predictProbabilities = async (inputs: number[][]): Promise<number[]> => {
+    if (inputs.length === 0) return [];
+    const inputTensor = tf.tensor2d(inputs);
+    const outputTensor = model.predict(inputTensor) as tf.Tensor;
+    const outputs = Array.from(await outputTensor.data());
+    inputTensor.dispose();
+    outputTensor.dispose();
+    return outputs;
+  };
+
+  const inputs = tf.tensor2d(training.map(featuresOf));
+  const targets = tf.tensor2d(training.map((p) => [labelOf(p)]));
+
+  try {
+    await model.fit(inputs, targets, {
+      epochs: EPOCHS,
+      batchSize: BATCH_SIZE,
+      shuffle: true,
+      callbacks: {
+        onEpochEnd: () => {
+          if (signal.aborted) model.stopTraining = true;
+        }
+      }
+    });
+    signal.throwIfAborted();
+
+    const labels = holdout.map(labelOf);
+    const probabilities = await predictProbabilities(holdout.map(featuresOf));
+    const positiveRate = labels.reduce((sum, label) => sum + label, 0) / labels.length;
+    const brierOf = (forecast: (i: number) => number) =>
+      labels.reduce((sum, label, i) => sum + (forecast(i) - label) ** 2, 0) / labels.length;
+    const summary: RideabilitySummary = {
+      trainingPairs: training.length,
+      positiveRate,
+      brier: brierOf((i) => probabilities[i]),
+      climatologyBrier: brierOf(() => positiveRate)
+    };
+
+    const hourly = await predictProbabilities(
+      predictions.map((chunk, index) => toFeatures(chunk, chunk.startTime, index + 1, settings))
+    );
+    const hours = predictions.map((chunk, i) => ({
+      startTime: chunk.startTime,
+      probability: hourly[i]
+    }));
+
+    return { hours, summary };
+  } finally {
+    inputs.dispose();
+    targets.dispose();
+    optimizer.dispose();
+    model.dispose();
+  }
+}
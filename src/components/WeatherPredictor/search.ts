@@ -0,0 +1,157 @@
+import { validateModelConfig } from './model';
+import type { HyperParameters, ModelConfig, TrainingProgress, WeatherData } from './types';
+
+// Successive halving over the hyperparameters the presets fix. Every candidate is scored
+// with the same walk-forward validation as a real run, on a short epoch budget; the better
+// half goes on to the next rung with twice the epochs, until one is left.
+
+export const SEARCH_CANDIDATES = 8;
+const MIN_EPOCHS = 5;
+// Share of candidates dropped at each rung is 1 - 1 / HALVING_RATE
+const HALVING_RATE = 2;
+
+const TIME_STEPS = [8, 12, 16, 24];
+const UNITS = [16, 32, 64];
+const DROPOUT = [0, 0.1, 0.2, 0.3];
+const BATCH_SIZES = [16, 32, 64];
+const LEARNING_RATE_RANGE: [number, number] = [3e-4, 3e-3];
+
+export interface SearchCandidate {
+  id: number;
+  params: HyperParameters;
+  // Walk-forward wind speed RMSE (m/s) at each rung reached; Infinity if it could not train
+  scores: number[];
+  // Rung after which it was dropped, or null while still in the running
+  eliminatedAfter: number | null;
+}
+
+export interface SearchProgress {
+  rung: number;
+  rungs: number;
+  rungEpochs: number;
+  candidates: SearchCandidate[];
+  // Candidate being validated, or null between rungs
+  evaluating: number | null;
+  training?: TrainingProgress;
+}
+
+export interface SearchResult {
+  winner: SearchCandidate;
+  candidates: SearchCandidate[];
+}
+
+// The run settings the search leaves alone
+export type SearchBaseConfig = Pick<
+  ModelConfig,
+  | 'predictionSteps'
+  | 'historyHours'
+  | 'tideStation'
+  | 'forecastMode'
+  | 'timeFeatures'
+  | 'location'
+  | 'architecture'
+>;
+
+const pick = <T>(values: T[]): T => values[Math.floor(Math.random() * values.length)];
+
+// Learning rates are spread evenly on a log scale, rounded to two significant figures
+function sampleLearningRate(): number {
+  const [low, high] = LEARNING_RATE_RANGE.map(Math.log);
+  return Number(Math.exp(low + Math.random() * (high - low)).toPrecision(2));
+}
+
+function sampleCandidates(count: number): HyperParameters[] {
+  const seen = new Set<string>();
+  const candidates: HyperParameters[] = [];
+  // The space is large enough that duplicates are rare; give up on uniqueness eventually
+  for (let attempt = 0; candidates.length < count && attempt < count * 20; attempt++) {
+    const params: HyperParameters = {
+      epochs: 0,
+      batchSize: pick(BATCH_SIZES),
+      learningRate: sampleLearningRate(),
+      timeSteps: pick(TIME_STEPS),
+      units: pick(UNITS),
+      dropout: pick(DROPOUT)
+    };
+    const key = JSON.stringify(params);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    candidates.push(params);
+  }
+  return candidates;
+}
+
+const latestScore = (candidate: SearchCandidate) =>
+  candidate.scores[candidate.scores.length - 1] ?? Infinity;
+
+/**
+ * Search for the hyperparameters with the lowest walk-forward error on `data`. The winner's
+ * epochs are set to twice the last rung's budget; early stopping in the folds of a real run
+ * then settles how many it trains for. Throws the signal's reason once aborted.
+ */
+export async function searchHyperParameters(
+  data: WeatherData[],
+  base: SearchBaseConfig,
+  onProgress: (progress: SearchProgress) => void,
+  signal: AbortSignal
+): Promise<SearchResult> {
+  const candidates: SearchCandidate[] = sampleCandidates(SEARCH_CANDIDATES).map(
+    (params, id) => ({ id, params, scores: [], eliminatedAfter: null })
+  );
+  const rungs = Math.max(1, Math.ceil(Math.log(candidates.length) / Math.log(HALVING_RATE)));
+
+  // Copies, so the UI never sees a candidate change under it
+  const snapshot = () =>
+    candidates.map((candidate) => ({ ...candidate, scores: [...candidate.scores] }));
+
+  let remaining = candidates;
+  let rungEpochs = MIN_EPOCHS;
+  for (let rung = 0; rung < rungs; rung++) {
+    for (const candidate of remaining) {
+      signal.throwIfAborted();
+      const progress: SearchProgress = {
+        rung,
+        rungs,
+        rungEpochs,
+        candidates: snapshot(),
+        evaluating: candidate.id
+      };
+      onProgress(progress);
+
+      const config: ModelConfig = {
+        ...base,
+        ...candidate.params,
+        epochs: rungEpochs,
+        performancePreset: 'balanced',
+        useLightModel: false,
+        signal,
+        callbacks: { onProgress: (training) => onProgress({ ...progress, training }) }
+      };
+      try {
+        const { rmse } = await validateModelConfig(data, config);
+        candidate.scores.push(isNaN(rmse) ? Infinity : rmse);
+      } catch (err) {
+        if (signal.aborted) throw err;
+        // Usually a window too long for the history; it simply loses
+        console.warn('Search candidate failed:', err);
+        candidate.scores.push(Infinity);
+      }
+    }
+
+    const ranked = [...remaining].sort((a, b) => latestScore(a) - latestScore(b));
+    const keep = Math.max(1, Math.ceil(ranked.length / HALVING_RATE));
+    ranked.slice(keep).forEach((candidate) => (candidate.eliminatedAfter = rung));
+    remaining = ranked.slice(0, keep);
+    if (rung < rungs - 1) rungEpochs *= HALVING_RATE;
+  }
+
+  const winner = remaining[0];
+  if (!isFinite(latestScore(winner))) {
+    throw new Error('No candidate could be trained on this history');
+  }
+  winner.params = { ...winner.params, epochs: rungEpochs * HALVING_RATE };
+
+  const result = snapshot();
+  onProgress({ rung: rungs - 1, rungs, rungEpochs, candidates: result, evaluating: null });
+  return { winner: result[winner.id], candidates: result };
+}
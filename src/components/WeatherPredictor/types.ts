@@ -1,3 +1,5 @@
+import type { TideStation } from '../../lib/tides';
+
 export interface WeatherData {
   timestamp: number;
   windSpeed: number;
@@ -6,23 +8,109 @@ export interface WeatherData {
   waveHeight?: number;
   wavePeriod?: number;
   swellDirection?: number;
+  temperature?: number;
+  precipitation?: number;
+  pressure?: number;
+  cloudCover?: number;
+  windSpeed80m?: number;
+  windDirection80m?: number;
+  // Metres above chart datum, from the local harmonic tide model
+  tideHeight?: number;
   isForecast?: boolean;
+  // Hour was missing from the source and filled in by the data-quality stage
+  isInterpolated?: boolean;
+}
+
+// 10th, 50th and 90th percentiles of a predicted value
+export interface QuantileBand {
+  p10: number;
+  p50: number;
+  p90: number;
 }
 
+export type QuantileField =
+  | 'windSpeed'
+  | 'windGusts'
+  | 'windDirection'
+  | 'waveHeight'
+  | 'wavePeriod'
+  | 'swellDirection'
+  | 'temperature'
+  | 'precipitation'
+  | 'pressure'
+  | 'cloudCover'
+  | 'windSpeed80m'
+  | 'windDirection80m';
+
+// Direction bands are expressed around p50 and may run below 0° or above 360°
+export type PredictionQuantiles = { [field in QuantileField]?: QuantileBand };
+
 export interface PredictionChunk {
   startTime: number;
   endTime: number;
   windSpeed: number;
   windGusts: number;
   windDirection: number;
-  waveHeight: number;
-  wavePeriod: number;
-  swellDirection: number;
+  // Undefined for spots without marine data
+  waveHeight?: number;
+  wavePeriod?: number;
+  swellDirection?: number;
+  // Undefined when the model did not predict them
+  temperature?: number;
+  precipitation?: number;
+  pressure?: number;
+  cloudCover?: number;
+  windSpeed80m?: number;
+  windDirection80m?: number;
+  tideHeight?: number;
+  // Share of Monte Carlo dropout samples whose wind speed lands near the median
   confidence: number;
+  quantiles: PredictionQuantiles;
 }
 
 export type PerformancePreset = 'fast' | 'balanced' | 'accurate';
 
+// Inputs derived from each hour's timestamp, so the model can learn daily and seasonal
+// cycles such as the afternoon sea breeze. Known in advance for every forecast hour.
+export interface TimeFeatures {
+  // sin/cos of the UTC hour
+  hourOfDay: boolean;
+  // sin/cos of the day of the year
+  dayOfYear: boolean;
+  // Computed for the spot, so it also needs ModelConfig.location
+  sunElevation: boolean;
+}
+
+// What a preset fixes about training; the rest of ModelConfig comes from the run
+export interface HyperParameters {
+  epochs: number;
+  batchSize: number;
+  learningRate: number;
+  timeSteps: number;
+  units: number;
+  dropout: number;
+}
+
+// Hyperparameters found by the search and saved under a name of the user's choosing
+export interface CustomPreset {
+  id: string;
+  name: string;
+  createdAt: number;
+  params: HyperParameters;
+  // Walk-forward wind speed RMSE (m/s) the search scored it at
+  validationRmse?: number;
+}
+
+// Network that reads the input window: stacked recurrent layers, a dilated causal
+// convolution stack (temporal CNN), or a small self-attention encoder
+export type ModelArchitecture = 'lstm' | 'gru' | 'tcn' | 'transformer';
+
+// Recursive feeds each predicted hour back in as input; direct predicts every hour at once
+export type ForecastMode = 'recursive' | 'direct';
+
+// Start from random weights, or fine-tune a model pretrained on points around the spot
+export type TrainingMode = 'scratch' | 'fine-tune';
+
 export interface ModelConfig {
   epochs: number;
   batchSize: number;
@@ -30,7 +118,25 @@ export interface ModelConfig {
   timeSteps: number;
   predictionSteps: number;
   performancePreset: PerformancePreset;
+  // Defaults to the LSTM
+  architecture?: ModelArchitecture;
+  // One recurrent layer or attention block instead of two; the TCN always uses enough
+  // layers to see the whole window
   useLightModel: boolean;
+  // Width of the first recurrent layer, or the channels of the TCN and attention encoder,
+  // and the rate of every dropout layer; default to the built-in sizes
+  units?: number;
+  dropout?: number;
+  // Train on at most this many of the most recent hours (defaults to all supplied data)
+  historyHours?: number;
+  // Feed the astronomical tide at this station to the model as an extra input
+  tideStation?: TideStation | null;
+  forecastMode?: ForecastMode;
+  // Calendar and solar inputs; none unless given
+  timeFeatures?: TimeFeatures;
+  location?: { lat: number; lon: number };
+  // Training stops at the next epoch once aborted, releasing its tensors
+  signal?: AbortSignal;
   callbacks?: {
     onProgress?: (progress: TrainingProgress) => void;
   };
@@ -51,6 +157,88 @@ export interface TimeSeriesDataPoint {
   predicted: number;
 }
 
+// One walk-forward fold, trained only on the hours before its validation block
+export interface FoldMetrics {
+  fold: number;
+  trainingSamples: number;
+  validationSamples: number;
+  // First and last hour scored
+  validationStart: number;
+  validationEnd: number;
+  // One-hour-ahead wind speed error (m/s) over the block
+  rmse: number;
+  mae: number;
+  bestEpoch: number;
+}
+
+// Variables the model is scored on against the baseline forecasters
+export type SkillVariable =
+  | 'windSpeed'
+  | 'windGusts'
+  | 'windDirection'
+  | 'temperature'
+  | 'pressure';
+
+export type BaselineId = 'persistence' | 'climatology' | 'autoregression' | 'nwp';
+
+// Model against one baseline for one variable, per lead hour, over the same forecasts.
+// Skill is 1 - modelRmse / baselineRmse; NaN where a lead hour had nothing to compare.
+export interface SkillScore {
+  baseline: BaselineId;
+  variable: SkillVariable;
+  modelRmse: number[];
+  baselineRmse: number[];
+  skill: number[];
+}
+
+// One model output's first-hour validation error in its own unit; directions in degrees
+// along the shorter arc
+export interface VariableMetrics {
+  variable: QuantileField;
+  rmse: number;
+  mae: number;
+  // Mean signed error; positive when the model runs high (or clockwise)
+  bias: number;
+  samples: number;
+}
+
+// Model inputs by what they encode; directions and the cyclic time features span two columns
+export type InputFeature =
+  | QuantileField
+  | 'pressureTendency'
+  | 'tideHeight'
+  | 'hourOfDay'
+  | 'dayOfYear'
+  | 'sunElevation';
+
+export interface FeatureImportance {
+  feature: InputFeature;
+  // Rise in one-hour-ahead wind speed RMSE (m/s) with the feature shuffled between windows
+  importance: number;
+  // The same with only one hour of the window shuffled; index 0 is the most recent hour
+  byLag: number[];
+}
+
+// Permutation importance on the last walk-forward fold's validation windows
+export interface InputImportance {
+  // Wind speed RMSE (m/s) with nothing shuffled
+  baselineRmse: number;
+  samples: number;
+  // Most important first
+  features: FeatureImportance[];
+}
+
+export type WindSample = Pick<WeatherData, 'windSpeed' | 'windGusts' | 'windDirection'>;
+
+// One hour of a walk-forward validation forecast next to what was then observed
+export interface ForecastPair {
+  timestamp: number;
+  // Hours after the forecast origin, from 1
+  lead: number;
+  predicted: WindSample;
+  actual: WindSample;
+}
+
 export interface ModelMetricsType {
   validationStrategy: string;
   rmse: number;
@@ -70,4 +258,13 @@ export interface ModelMetricsType {
   windSpeedData: TimeSeriesDataPoint[];
   waveHeightData: TimeSeriesDataPoint[];
   windDirectionData: TimeSeriesDataPoint[];
+  // Wind speed RMSE (m/s) per lead hour; the first entry is the model in use, any
+  // second one the other forecast mode trained for comparison on the same data
+  leadTimeRmse?: { mode: ForecastMode; rmse: number[] }[];
+  folds?: FoldMetrics[];
+  skillScores?: SkillScore[];
+  variableMetrics?: VariableMetrics[];
+  inputImportance?: InputImportance;
+  // Kept so rideability can be learned again when the rider's thresholds change
+  forecastPairs?: ForecastPair[];
 }
@@ -1,15 +1,45 @@
 import React from 'react';
 import type { WeatherData, PredictionChunk } from '../WeatherPredictor/types';
 import { Chart } from '../Chart';
+import { findTideExtremes, predictTideHeight } from '../../lib/tides';
+import type { TideStation } from '../../lib/tides';
+import { computeEnsembleStats } from '../../lib/ensemble';
+import type { EnsembleHour } from '../../lib/ensemble';
+import type { EnsembleMember } from '../../lib/providers/types';
+import type { MosSummary } from '../WeatherPredictor/mos';
+import {
+  DEFAULT_UNITS,
+  convertHeight,
+  convertWind,
+  formatConvertedWind,
+  heightUnitLabel,
+  windUnitLabel
+} from '../../lib/units';
+import type { UnitPreferences } from '../../lib/units';
 import './styles.css';
 
 interface WindTableProps {
   historicalData: WeatherData[];
   predictions: PredictionChunk[];
   forecastData: WeatherData[];
+  tideStation?: TideStation | null;
+  ensemble?: EnsembleMember[];
+  units?: UnitPreferences;
+  // Open-Meteo forecast after MOS bias correction, shown against the raw forecast
+  correctedForecast?: WeatherData[];
+  mosSummary?: MosSummary | null;
 }
 
-export function WindTable({ historicalData, predictions, forecastData }: WindTableProps) {
+export function WindTable({
+  historicalData,
+  predictions,
+  forecastData,
+  tideStation = null,
+  ensemble = [],
+  units = DEFAULT_UNITS,
+  correctedForecast = [],
+  mosSummary = null
+}: WindTableProps) {
   const formatDateTime = (timestamp: number) => {
     const date = new Date(timestamp);
     const today = new Date();
@@ -51,6 +81,10 @@ export function WindTable({ historicalData, predictions, forecastData }: WindTab
       historical?: WeatherData;
       forecast?: WeatherData;
       prediction?: PredictionChunk;
+      corrected?: WeatherData;
+      tideHeight?: number;
+      ensemble?: EnsembleHour;
+      members?: { [label: string]: WeatherData };
     }
   >();
 
@@ -81,28 +115,132 @@ export function WindTable({ historicalData, predictions, forecastData }: WindTab
     }
   });
 
-  // Convert map to sorted array
-  const allData = Array.from(timeMap.values()).sort((a, b) => a.timestamp - b.timestamp);
+  // Add bias-corrected forecast
+  correctedForecast.forEach((d) => {
+    if (!timeMap.has(d.timestamp)) {
+      timeMap.set(d.timestamp, { timestamp: d.timestamp, corrected: d });
+    } else {
+      timeMap.get(d.timestamp)!.corrected = d;
+    }
+  });
+
+  // Add ensemble summary and individual models
+  computeEnsembleStats(ensemble).forEach((hour) => {
+    if (!timeMap.has(hour.timestamp)) {
+      timeMap.set(hour.timestamp, { timestamp: hour.timestamp, ensemble: hour });
+    } else {
+      timeMap.get(hour.timestamp)!.ensemble = hour;
+    }
+  });
+  ensemble.forEach(({ model, data }) => {
+    data.forEach((d) => {
+      // Stats skip hours without a usable value, so a member can have a row of its own
+      const row = timeMap.get(d.timestamp) ?? { timestamp: d.timestamp };
+      row.members = { ...row.members, [model.label]: d };
+      timeMap.set(d.timestamp, row);
+    });
+  });
+
+  const wind = (ms: number | undefined) =>
+    ms === undefined ? undefined : convertWind(ms, units.wind);
+  const height = (metres: number | undefined) =>
+    metres === undefined ? undefined : convertHeight(metres, units.height);
+  const windLabel = windUnitLabel(units.wind);
+  const heightLabel = heightUnitLabel(units.height);
+  const formatWindValue = (value: number) => formatConvertedWind(value, units.wind);
+  // Spreads and errors are differences, which have no meaning on the Beaufort scale
+  const differenceUnit = units.wind === 'bft' ? 'ms' : units.wind;
+
+  const memberValues = (
+    members: { [label: string]: WeatherData } | undefined,
+    field: 'windSpeed' | 'windDirection'
+  ) =>
+    members &&
+    Object.fromEntries(
+      Object.entries(members).map(([label, d]) => [
+        label,
+        field === 'windSpeed' ? wind(d.windSpeed) : d.windDirection
+      ])
+    );
+
+  // Convert map to sorted array, adding the astronomical tide to every hour
+  const allData = Array.from(timeMap.values())
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .map((d) => ({
+      ...d,
+      tideHeight: tideStation ? predictTideHeight(tideStation, d.timestamp) : undefined
+    }));
+
+  const ensembleHours = allData.flatMap((d) => (d.ensemble ? [d.ensemble] : []));
+  const meanSpread = ensembleHours.length
+    ? ensembleHours.reduce((sum, h) => sum + h.windSpeedSpread, 0) / ensembleHours.length
+    : 0;
+  const maxSpreadHour = ensembleHours.reduce<EnsembleHour | null>(
+    (max, h) => (!max || h.windSpeedSpread > max.windSpeedSpread ? h : max),
+    null
+  );
+
+  // Lakes and reservoirs have no marine data; don't draw an empty wave chart for them
+  const hasWaves = allData.some(
+    (d) => d.historical?.waveHeight !== undefined || d.forecast?.waveHeight !== undefined
+  );
+
+  const now = Date.now();
+  const lastTimestamp = allData.length ? allData[allData.length - 1].timestamp : now;
+  const upcomingTides = tideStation ? findTideExtremes(tideStation, now, lastTimestamp) : [];
 
   // Prepare data for charts
   const chartData = {
     windSpeed: allData.map((d) => ({
       timestamp: d.timestamp,
-      historical: d.historical?.windSpeed,
-      forecast: d.forecast?.windSpeed,
-      prediction: d.prediction?.windSpeed
+      historical: wind(d.historical?.windSpeed),
+      forecast: wind(d.forecast?.windSpeed),
+      prediction: wind(d.prediction?.windSpeed),
+      predictionLow: wind(d.prediction?.quantiles.windSpeed?.p10),
+      predictionHigh: wind(d.prediction?.quantiles.windSpeed?.p90),
+      corrected: wind(d.corrected?.windSpeed),
+      ensembleMean: wind(d.ensemble?.windSpeedMean),
+      ensembleLow: d.ensemble && wind(d.ensemble.windSpeedMean - d.ensemble.windSpeedSpread),
+      ensembleHigh: d.ensemble && wind(d.ensemble.windSpeedMean + d.ensemble.windSpeedSpread),
+      members: memberValues(d.members, 'windSpeed')
     })),
     windDirection: allData.map((d) => ({
       timestamp: d.timestamp,
       historical: d.historical?.windDirection,
       forecast: d.forecast?.windDirection,
-      prediction: d.prediction?.windDirection
+      // No band here: it can wrap through north and would draw across the whole chart
+      prediction: d.prediction?.windDirection,
+      corrected: d.corrected?.windDirection,
+      ensembleMean: d.ensemble?.windDirectionMean,
+      members: memberValues(d.members, 'windDirection')
     })),
     waveHeight: allData.map((d) => ({
       timestamp: d.timestamp,
-      historical: d.historical?.waveHeight,
-      forecast: d.forecast?.waveHeight,
-      prediction: d.prediction?.waveHeight
+      historical: height(d.historical?.waveHeight),
+      forecast: height(d.forecast?.waveHeight),
+      prediction: height(d.prediction?.waveHeight),
+      predictionLow: height(d.prediction?.quantiles.waveHeight?.p10),
+      predictionHigh: height(d.prediction?.quantiles.waveHeight?.p90)
+    })),
+    temperature: allData.map((d) => ({
+      timestamp: d.timestamp,
+      historical: d.historical?.temperature,
+      forecast: d.forecast?.temperature,
+      prediction: d.prediction?.temperature,
+      predictionLow: d.prediction?.quantiles.temperature?.p10,
+      predictionHigh: d.prediction?.quantiles.temperature?.p90
+    })),
+    pressure: allData.map((d) => ({
+      timestamp: d.timestamp,
+      historical: d.historical?.pressure,
+      forecast: d.forecast?.pressure,
+      prediction: d.prediction?.pressure,
+      predictionLow: d.prediction?.quantiles.pressure?.p10,
+      predictionHigh: d.prediction?.quantiles.pressure?.p90
+    })),
+    tideHeight: allData.map((d) => ({
+      timestamp: d.timestamp,
+      historical: height(d.tideHeight)
     }))
   };
 
@@ -121,13 +259,40 @@ export function WindTable({ historicalData, predictions, forecastData }: WindTab
           <div className="h-64">
             <Chart
               data={chartData.windSpeed}
-              yLabel="Wind Speed (m/s)"
+              yLabel={`Wind Speed (${windLabel})`}
               historicalLabel="Historical Data"
               forecastLabel="OpenMeteo Forecast"
               predictionLabel="AI Prediction"
               id="wind-speed-chart"
+              ensembleBandLabel="Model Spread (±1σ)"
+              formatValue={formatWindValue}
             />
           </div>
+          {mosSummary && (
+            <p className="mt-2 text-xs text-slate-400">
+              Corrected forecast learned from {mosSummary.trainingPairs} past forecasts. On
+              the most recent, held-out hours its error was{' '}
+              {convertWind(mosSummary.correctedRmse, differenceUnit).toFixed(1)} against{' '}
+              {convertWind(mosSummary.rawRmse, differenceUnit).toFixed(1)}{' '}
+              {windUnitLabel(differenceUnit)} for the raw forecast.
+            </p>
+          )}
+          {ensemble.length > 0 && (
+            <p className="mt-2 text-xs text-slate-400">
+              {ensemble.map((m) => m.model.label).join(', ')} · mean spread{' '}
+              {convertWind(meanSpread, differenceUnit).toFixed(1)} {windUnitLabel(differenceUnit)},
+              largest{' '}
+              {maxSpreadHour &&
+                `${convertWind(maxSpreadHour.windSpeedSpread, differenceUnit).toFixed(1)} at ${new Date(
+                  maxSpreadHour.timestamp
+                ).toLocaleString('en-GB', {
+                  weekday: 'short',
+                  hour: '2-digit',
+                  minute: '2-digit',
+                  hour12: false
+                })}`}
+            </p>
+          )}
         </div>
         <div className="bg-slate-900/30 backdrop-blur-sm p-4 rounded-xl border border-slate-800/30">
           <h3 className="text-base font-medium mb-3 text-slate-300">Wind Direction</h3>
@@ -144,17 +309,86 @@ export function WindTable({ historicalData, predictions, forecastData }: WindTab
         </div>
         <div className="bg-slate-900/30 backdrop-blur-sm p-4 rounded-xl border border-slate-800/30">
           <h3 className="text-base font-medium mb-3 text-slate-300">Wave Height</h3>
+          {hasWaves ? (
+            <div className="h-64">
+              <Chart
+                data={chartData.waveHeight}
+                yLabel={`Wave Height (${heightLabel})`}
+                historicalLabel="Historical Data"
+                forecastLabel="OpenMeteo Forecast"
+                predictionLabel="AI Prediction"
+                id="wave-height-chart"
+              />
+            </div>
+          ) : (
+            <p className="text-sm text-slate-400 leading-relaxed">
+              No marine data for this spot. Wave models only cover open sea and the coast, so
+              lakes and reservoirs have wind-only forecasts. The AI model was trained without
+              wave features rather than treating waves as flat.
+            </p>
+          )}
+        </div>
+        <div className="bg-slate-900/30 backdrop-blur-sm p-4 rounded-xl border border-slate-800/30">
+          <h3 className="text-base font-medium mb-3 text-slate-300">Air Temperature</h3>
+          <div className="h-64">
+            <Chart
+              data={chartData.temperature}
+              yLabel="Temperature (°C)"
+              historicalLabel="Historical Data"
+              forecastLabel="OpenMeteo Forecast"
+              predictionLabel="AI Prediction"
+              id="temperature-chart"
+            />
+          </div>
+        </div>
+        <div className="bg-slate-900/30 backdrop-blur-sm p-4 rounded-xl border border-slate-800/30">
+          <h3 className="text-base font-medium mb-3 text-slate-300">Sea-Level Pressure</h3>
           <div className="h-64">
             <Chart
-              data={chartData.waveHeight}
-              yLabel="Wave Height (m)"
+              data={chartData.pressure}
+              yLabel="Pressure (hPa)"
               historicalLabel="Historical Data"
               forecastLabel="OpenMeteo Forecast"
               predictionLabel="AI Prediction"
-              id="wave-height-chart"
+              id="pressure-chart"
             />
           </div>
         </div>
+        {tideStation && (
+          <div className="bg-slate-900/30 backdrop-blur-sm p-4 rounded-xl border border-slate-800/30">
+            <h3 className="text-base font-medium mb-3 text-slate-300">
+              Tide Height ({tideStation.name})
+            </h3>
+            <div className="h-64">
+              <Chart
+                data={chartData.tideHeight}
+                yLabel={`Height above chart datum (${heightLabel})`}
+                historicalLabel="Predicted Tide"
+                id="tide-height-chart"
+              />
+            </div>
+            {upcomingTides.length > 0 && (
+              <div className="mt-3 flex flex-wrap gap-2 text-xs">
+                {upcomingTides.map((tide) => (
+                  <span
+                    key={tide.timestamp}
+                    className="px-2 py-1 rounded bg-slate-800/60 text-slate-300 tabular-nums"
+                  >
+                    {tide.type === 'high' ? 'HW' : 'LW'}{' '}
+                    {new Date(tide.timestamp).toLocaleString('en-GB', {
+                      weekday: 'short',
+                      hour: '2-digit',
+                      minute: '2-digit',
+                      hour12: false
+                    })}{' '}
+                    {convertHeight(tide.height, units.height).toFixed(1)}
+                    {heightLabel}
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,272 @@
+import type { WeatherData } from '../components/WeatherPredictor/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Gaps up to this many hours are filled by interpolation; longer ones are left as breaks
+export const MAX_INTERPOLATION_HOURS = 3;
+
+// A value this many robust standard deviations from its neighbours' median is a spike
+const SPIKE_THRESHOLD = 5;
+const SPIKE_WINDOW_HOURS = 3;
+
+type ScalarField =
+  | 'windSpeed'
+  | 'windGusts'
+  | 'waveHeight'
+  | 'wavePeriod'
+  | 'temperature'
+  | 'precipitation'
+  | 'pressure'
+  | 'cloudCover'
+  | 'windSpeed80m';
+
+type DirectionField = 'windDirection' | 'swellDirection' | 'windDirection80m';
+
+export type QualityField = ScalarField | DirectionField;
+
+const SCALAR_FIELDS: ScalarField[] = [
+  'windSpeed',
+  'windGusts',
+  'waveHeight',
+  'wavePeriod',
+  'temperature',
+  'precipitation',
+  'pressure',
+  'cloudCover',
+  'windSpeed80m'
+];
+
+const DIRECTION_FIELDS: DirectionField[] = ['windDirection', 'swellDirection', 'windDirection80m'];
+
+// Values outside these are physically implausible rather than merely unusual
+const PHYSICAL_RANGES: { [field in ScalarField]: [number, number] } = {
+  windSpeed: [0, 75],
+  windGusts: [0, 100],
+  waveHeight: [0, 30],
+  wavePeriod: [0, 30],
+  temperature: [-40, 50],
+  precipitation: [0, 150],
+  pressure: [900, 1080],
+  cloudCover: [0, 100],
+  windSpeed80m: [0, 100]
+};
+
+// Rain is naturally spiky; only range-check it
+const SPIKE_EXEMPT: ScalarField[] = ['precipitation', 'cloudCover'];
+
+export interface DataGap {
+  start: number;
+  end: number;
+  hours: number;
+  interpolated: boolean;
+}
+
+export interface OutlierFlag {
+  timestamp: number;
+  field: QualityField;
+  value: number;
+  reason: 'spike' | 'out-of-range';
+}
+
+export interface DataQualityReport {
+  expectedHours: number;
+  receivedHours: number;
+  missingHours: number;
+  interpolatedHours: number;
+  // Individual field values filled in on rows that otherwise existed
+  interpolatedValues: number;
+  gaps: DataGap[];
+  outliers: OutlierFlag[];
+  // Fraction of hours with a value, per field, after interpolation
+  completeness: { [field in QualityField]?: number };
+}
+
+export interface DataQualityResult {
+  data: WeatherData[];
+  report: DataQualityReport;
+}
+
+const isPresent = (v: number | undefined | null): v is number =>
+  v !== undefined && v !== null && !isNaN(v);
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+
+// Interpolate along the shorter arc so 350° -> 10° passes through 0°, not 180°
+const lerpAngle = (a: number, b: number, t: number) => {
+  const delta = ((((b - a) % 360) + 540) % 360) - 180;
+  return (a + delta * t + 360) % 360;
+};
+
+type GridRow = WeatherData & { missing?: boolean };
+
+// Fill short runs of missing values in one field; returns how many existing rows gained a value
+function fillFieldGaps(
+  rows: GridRow[],
+  field: QualityField,
+  interpolate: (a: number, b: number, t: number) => number
+): number {
+  let filled = 0;
+  let lastIndex = -1;
+
+  rows.forEach((row, i) => {
+    if (!isPresent(row[field])) return;
+    const gap = i - lastIndex - 1;
+    if (lastIndex >= 0 && gap > 0 && gap <= MAX_INTERPOLATION_HOURS) {
+      const from = rows[lastIndex][field] as number;
+      const to = row[field] as number;
+      for (let j = lastIndex + 1; j < i; j++) {
+        rows[j] = { ...rows[j], [field]: interpolate(from, to, (j - lastIndex) / (gap + 1)) };
+        if (!rows[j].missing) filled++;
+      }
+    }
+    lastIndex = i;
+  });
+
+  return filled;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+function findOutliers(rows: WeatherData[]): OutlierFlag[] {
+  const outliers: OutlierFlag[] = [];
+
+  SCALAR_FIELDS.forEach((field) => {
+    const [min, max] = PHYSICAL_RANGES[field];
+
+    rows.forEach((row, i) => {
+      const value = row[field];
+      if (!isPresent(value)) return;
+
+      if (value < min || value > max) {
+        outliers.push({ timestamp: row.timestamp, field, value, reason: 'out-of-range' });
+        return;
+      }
+      if (SPIKE_EXEMPT.includes(field)) return;
+
+      const neighbours = rows
+        .slice(Math.max(0, i - SPIKE_WINDOW_HOURS), i + SPIKE_WINDOW_HOURS + 1)
+        .filter((_, j) => j !== Math.min(i, SPIKE_WINDOW_HOURS))
+        .map((r) => r[field])
+        .filter(isPresent);
+      if (neighbours.length < SPIKE_WINDOW_HOURS) return;
+
+      const centre = median(neighbours);
+      // Median absolute deviation scaled to a standard deviation, with a floor so flat
+      // series don't flag every small wobble
+      const spread = Math.max(1.4826 * median(neighbours.map((v) => Math.abs(v - centre))), 0.5);
+      if (Math.abs(value - centre) > SPIKE_THRESHOLD * spread) {
+        outliers.push({ timestamp: row.timestamp, field, value, reason: 'spike' });
+      }
+    });
+  });
+
+  return outliers.sort((a, b) => a.timestamp - b.timestamp);
+}
+
+/**
+ * Put an hourly series on a regular grid, fill short gaps, and flag suspicious values.
+ * Missing hours are inserted and interpolated when the gap is short; long gaps are
+ * reported and left out so downstream windows can avoid spanning them. Flagged values
+ * are reported but not changed.
+ */
+export function runDataQuality(data: WeatherData[]): DataQualityResult {
+  const sorted = [...data].sort((a, b) => a.timestamp - b.timestamp);
+  if (sorted.length === 0) {
+    return {
+      data: [],
+      report: {
+        expectedHours: 0,
+        receivedHours: 0,
+        missingHours: 0,
+        interpolatedHours: 0,
+        interpolatedValues: 0,
+        gaps: [],
+        outliers: [],
+        completeness: {}
+      }
+    };
+  }
+
+  const byHour = new Map<number, WeatherData>();
+  sorted.forEach((d) => byHour.set(d.timestamp, d));
+
+  const first = sorted[0].timestamp;
+  const last = sorted[sorted.length - 1].timestamp;
+  const now = Date.now();
+
+  // Build the full hourly grid, with placeholders for missing hours
+  const grid: GridRow[] = [];
+  const gaps: DataGap[] = [];
+  let gapStart: number | null = null;
+
+  for (let t = first; t <= last; t += HOUR_MS) {
+    const row = byHour.get(t);
+    if (row) {
+      if (gapStart !== null) {
+        const hours = (t - gapStart) / HOUR_MS;
+        gaps.push({
+          start: gapStart,
+          end: t - HOUR_MS,
+          hours,
+          interpolated: hours <= MAX_INTERPOLATION_HOURS
+        });
+        gapStart = null;
+      }
+      grid.push(row);
+    } else {
+      if (gapStart === null) gapStart = t;
+      grid.push({
+        timestamp: t,
+        windSpeed: NaN,
+        windGusts: NaN,
+        windDirection: NaN,
+        isForecast: t > now,
+        missing: true
+      });
+    }
+  }
+
+  const interpolatedValues =
+    SCALAR_FIELDS.reduce((sum, field) => sum + fillFieldGaps(grid, field, lerp), 0) +
+    DIRECTION_FIELDS.reduce((sum, field) => sum + fillFieldGaps(grid, field, lerpAngle), 0);
+
+  // Keep filled-in hours, drop the rest of the placeholders
+  const filledHours = new Set(
+    gaps.filter((g) => g.interpolated).flatMap((g) =>
+      Array.from({ length: g.hours }, (_, k) => g.start + k * HOUR_MS)
+    )
+  );
+  const cleaned: WeatherData[] = grid
+    .filter((r) => !r.missing || filledHours.has(r.timestamp))
+    .map(({ missing, ...r }) => (missing ? { ...r, isInterpolated: true } : r));
+
+  const interpolatedHours = filledHours.size;
+  const expectedHours = grid.length;
+  const completeness: DataQualityReport['completeness'] = {};
+  [...SCALAR_FIELDS, ...DIRECTION_FIELDS].forEach((field) => {
+    completeness[field] = cleaned.filter((r) => isPresent(r[field])).length / expectedHours;
+  });
+
+  const report: DataQualityReport = {
+    expectedHours,
+    receivedHours: byHour.size,
+    missingHours: expectedHours - byHour.size,
+    interpolatedHours,
+    interpolatedValues,
+    gaps,
+    outliers: findOutliers(cleaned),
+    completeness
+  };
+
+  console.log('Data quality report:', {
+    ...report,
+    gaps: report.gaps.length,
+    outliers: report.outliers.length
+  });
+
+  return { data: cleaned, report };
+}
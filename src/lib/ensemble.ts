@@ -0,0 +1,67 @@
+import type { EnsembleMember } from './providers/types';
+
+export interface EnsembleHour {
+  timestamp: number;
+  memberCount: number;
+  windSpeedMean: number;
+  // Standard deviation across models
+  windSpeedSpread: number;
+  windSpeedMin: number;
+  windSpeedMax: number;
+  windGustsMean: number;
+  // Circular mean, degrees
+  windDirectionMean: number;
+  // Circular standard deviation, degrees
+  windDirectionSpread: number;
+}
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+
+const stdDev = (values: number[]) => {
+  const m = mean(values);
+  return Math.sqrt(values.reduce((sum, v) => sum + (v - m) ** 2, 0) / values.length);
+};
+
+/**
+ * Per-hour ensemble mean and spread across the members that have a value for that hour.
+ * Directions use circular statistics so 350° and 10° average to 0°, not 180°.
+ */
+export function computeEnsembleStats(members: EnsembleMember[]): EnsembleHour[] {
+  const byHour = new Map<number, { speed: number[]; gusts: number[]; direction: number[] }>();
+
+  members.forEach(({ data }) => {
+    data.forEach((d) => {
+      if (!byHour.has(d.timestamp)) {
+        byHour.set(d.timestamp, { speed: [], gusts: [], direction: [] });
+      }
+      const hour = byHour.get(d.timestamp)!;
+      hour.speed.push(d.windSpeed);
+      if (!isNaN(d.windGusts)) hour.gusts.push(d.windGusts);
+      hour.direction.push(d.windDirection);
+    });
+  });
+
+  return Array.from(byHour.entries())
+    .sort(([a], [b]) => a - b)
+    .map(([timestamp, { speed, gusts, direction }]) => {
+      const sin = mean(direction.map((d) => Math.sin(toRadians(d))));
+      const cos = mean(direction.map((d) => Math.cos(toRadians(d))));
+      // Mean resultant length R; circular std is sqrt(-2 ln R)
+      const resultant = Math.min(1, Math.sqrt(sin * sin + cos * cos));
+
+      return {
+        timestamp,
+        memberCount: speed.length,
+        windSpeedMean: mean(speed),
+        windSpeedSpread: stdDev(speed),
+        windSpeedMin: Math.min(...speed),
+        windSpeedMax: Math.max(...speed),
+        windGustsMean: gusts.length ? mean(gusts) : NaN,
+        windDirectionMean: (toDegrees(Math.atan2(sin, cos)) + 360) % 360,
+        windDirectionSpread: resultant > 0 ? toDegrees(Math.sqrt(-2 * Math.log(resultant))) : 180
+      };
+    });
+}
@@ -0,0 +1,327 @@
+import * as tf from '@tensorflow/tfjs';
+import type { TrainedModel, DataStats } from '../components/WeatherPredictor/model';
+import type {
+  ForecastMode,
+  ModelArchitecture,
+  ModelMetricsType,
+  PerformancePreset,
+  TimeFeatures,
+  TrainingMode
+} from '../components/WeatherPredictor/types';
+import type { TideStation } from './tides';
+
+// Trained models per spot, and the regional base models they can be fine-tuned from.
+// Weights live in tf.js's own IndexedDB storage; everything else needed to use them again
+// (normalisation, config, metrics) is kept alongside here.
+
+const DB_NAME = 'wingfoil-models';
+const DB_VERSION = 2;
+const STORE = 'models';
+const BASE_STORE = 'baseModels';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Saved models older than this are retrained rather than reused
+export const MODEL_TTL_MS = 3 * DAY_MS;
+
+// Weather patterns change slowly, so a base model stays useful for much longer
+export const BASE_MODEL_TTL_MS = 30 * DAY_MS;
+
+const COORD_PRECISION = 2;
+
+// Base models cover one cell of a grid this many degrees wide
+const REGION_DEGREES = 1;
+
+// The choices that shape a trained model; a saved one is only reused if these match
+export interface ModelSettings {
+  performancePreset: PerformancePreset;
+  // Name of the searched preset used instead of the built-in one
+  customPresetName: string | null;
+  architecture: ModelArchitecture;
+  useLightModel: boolean;
+  epochs: number;
+  batchSize: number;
+  learningRate: number;
+  timeSteps: number;
+  units: number;
+  dropout: number;
+  predictionSteps: number;
+  forecastMode: ForecastMode;
+  historyDays: number;
+  tideStationId: string | null;
+  timeFeatures: TimeFeatures;
+  trainingMode: TrainingMode;
+}
+
+// The settings that fix a network's shape and inputs, and where its data came from; a base
+// model can only be fine-tuned into a spot model that shares them. Base models never take
+// the tide as an input.
+export type BaseModelSettings = Pick<
+  ModelSettings,
+  | 'architecture'
+  | 'useLightModel'
+  | 'timeSteps'
+  | 'units'
+  | 'dropout'
+  | 'predictionSteps'
+  | 'forecastMode'
+  | 'timeFeatures'
+> & { useWaves: boolean; providerId: string };
+
+export interface SavedModelRecord {
+  key: string;
+  lat: number;
+  lon: number;
+  trainedAt: number;
+  settings: ModelSettings;
+  stats: DataStats;
+  useWaves: boolean;
+  tideStation: TideStation | null;
+  metrics: ModelMetricsType | null;
+  // Last observed hour the weights have been fitted on; missing on older records
+  dataEnd?: number;
+  // Incremental updates since the full training run, and when the latest was made
+  updates?: number;
+  updatedAt?: number;
+}
+
+export interface SavedBaseModel {
+  key: string;
+  // Centre of the region's grid cell
+  lat: number;
+  lon: number;
+  trainedAt: number;
+  settings: BaseModelSettings;
+  stats: DataStats;
+  // Points whose history went into it
+  points: number;
+}
+
+export function spotKey(lat: number, lon: number): string {
+  return `${lat.toFixed(COORD_PRECISION)},${lon.toFixed(COORD_PRECISION)}`;
+}
+
+/** Centre of the grid cell holding the spot; every spot in the cell shares its base models. */
+export function regionCentre(lat: number, lon: number): { lat: number; lon: number } {
+  const centre = (degrees: number) =>
+    (Math.floor(degrees / REGION_DEGREES) + 0.5) * REGION_DEGREES;
+  return { lat: centre(lat), lon: centre(lon) };
+}
+
+// One base model per region, provider and network shape
+function baseModelKey(lat: number, lon: number, settings: BaseModelSettings): string {
+  const { lat: centreLat, lon: centreLon } = regionCentre(lat, lon);
+  // Short, stable digest of the settings (djb2), so the key stays a usable storage name
+  const json = JSON.stringify(settings);
+  let hash = 5381;
+  for (let i = 0; i < json.length; i++) hash = ((hash << 5) + hash + json.charCodeAt(i)) | 0;
+  return `${spotKey(centreLat, centreLon)}-${(hash >>> 0).toString(36)}`;
+}
+
+const weightsUrl = (key: string) => `indexeddb://wingfoil-model-${key}`;
+const baseWeightsUrl = (key: string) => `indexeddb://wingfoil-base-${key}`;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        for (const name of [STORE, BASE_STORE]) {
+          if (!db.objectStoreNames.contains(name)) {
+            db.createObjectStore(name, { keyPath: 'key' });
+          }
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        // Private browsing or blocked storage: always train from scratch
+        console.warn('Model store unavailable:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+export function isModelReusable(
+  record: SavedModelRecord,
+  settings: ModelSettings,
+  now: number = Date.now()
+): boolean {
+  return (
+    now - record.trainedAt < MODEL_TTL_MS &&
+    JSON.stringify(record.settings) === JSON.stringify(settings)
+  );
+}
+
+export async function saveSpotModel(
+  lat: number,
+  lon: number,
+  trained: TrainedModel,
+  settings: ModelSettings,
+  metrics: ModelMetricsType | null,
+  dataEnd: number
+): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+
+  const key = spotKey(lat, lon);
+  await trained.model.save(weightsUrl(key));
+
+  const record: SavedModelRecord = {
+    key,
+    lat,
+    lon,
+    trainedAt: Date.now(),
+    settings,
+    stats: trained.stats,
+    useWaves: trained.useWaves,
+    tideStation: trained.tideStation,
+    metrics,
+    dataEnd,
+    updates: 0
+  };
+  const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+  await promisify(store.put(record));
+}
+
+/**
+ * Store the weights of an incrementally updated model over the saved ones. The record
+ * keeps its training time, so the model is still fully retrained once it is too old.
+ */
+export async function updateSpotModel(
+  record: SavedModelRecord,
+  trained: TrainedModel,
+  dataEnd: number
+): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+
+  await trained.model.save(weightsUrl(record.key));
+  const updated: SavedModelRecord = {
+    ...record,
+    dataEnd,
+    updates: (record.updates ?? 0) + 1,
+    updatedAt: Date.now()
+  };
+  const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+  await promisify(store.put(updated));
+}
+
+export async function readSpotModel(
+  lat: number,
+  lon: number
+): Promise<SavedModelRecord | undefined> {
+  const db = await openDb();
+  if (!db) return undefined;
+  const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+  return promisify(store.get(spotKey(lat, lon)) as IDBRequest<SavedModelRecord | undefined>);
+}
+
+export async function loadSpotModel(record: SavedModelRecord): Promise<TrainedModel> {
+  const model = await tf.loadLayersModel(weightsUrl(record.key));
+  return {
+    model,
+    stats: record.stats,
+    timeSteps: record.settings.timeSteps,
+    predictionSteps: record.settings.predictionSteps,
+    forecastMode: record.settings.forecastMode,
+    useWaves: record.useWaves,
+    tideStation: record.tideStation,
+    timeFeatures: record.settings.timeFeatures,
+    // Models are trained at the spot's exact position, which the record keeps
+    location: { lat: record.lat, lon: record.lon }
+  };
+}
+
+export async function listSavedModels(): Promise<SavedModelRecord[]> {
+  const db = await openDb();
+  if (!db) return [];
+  const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+  const records = await promisify(store.getAll() as IDBRequest<SavedModelRecord[]>);
+  return records.sort((a, b) => b.trainedAt - a.trainedAt);
+}
+
+export async function deleteSavedModel(key: string): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+  try {
+    await tf.io.removeModel(weightsUrl(key));
+  } catch (error) {
+    // Weights already gone; still drop the record
+    console.warn('Saved model weights not found:', error);
+  }
+  const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+  await promisify(store.delete(key));
+}
+
+/** The region's base model for these settings, if one has been trained recently. */
+export async function readBaseModel(
+  lat: number,
+  lon: number,
+  settings: BaseModelSettings,
+  now: number = Date.now()
+): Promise<SavedBaseModel | undefined> {
+  const db = await openDb();
+  if (!db) return undefined;
+  const store = db.transaction(BASE_STORE, 'readonly').objectStore(BASE_STORE);
+  const record = await promisify(
+    store.get(baseModelKey(lat, lon, settings)) as IDBRequest<SavedBaseModel | undefined>
+  );
+  return record && now - record.trainedAt < BASE_MODEL_TTL_MS ? record : undefined;
+}
+
+export async function saveBaseModel(
+  lat: number,
+  lon: number,
+  trained: TrainedModel,
+  settings: BaseModelSettings,
+  points: number
+): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+
+  const key = baseModelKey(lat, lon, settings);
+  await trained.model.save(baseWeightsUrl(key));
+
+  const record: SavedBaseModel = {
+    key,
+    ...regionCentre(lat, lon),
+    trainedAt: Date.now(),
+    settings,
+    stats: trained.stats,
+    points
+  };
+  const store = db.transaction(BASE_STORE, 'readwrite').objectStore(BASE_STORE);
+  await promisify(store.put(record));
+}
+
+export async function loadBaseModel(record: SavedBaseModel): Promise<TrainedModel> {
+  const model = await tf.loadLayersModel(baseWeightsUrl(record.key));
+  return {
+    model,
+    stats: record.stats,
+    timeSteps: record.settings.timeSteps,
+    predictionSteps: record.settings.predictionSteps,
+    forecastMode: record.settings.forecastMode,
+    useWaves: record.settings.useWaves,
+    tideStation: null,
+    timeFeatures: record.settings.timeFeatures,
+    // Pretrained across the region rather than at one position
+    location: null
+  };
+}
@@ -0,0 +1,93 @@
+import type { WeatherData } from '../../components/WeatherPredictor/types';
+import type { WeatherProvider, WeatherRange, WeatherRecording } from './types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+interface FixtureProviderOptions {
+  // Shift the recording so its recordedAt lands on the current hour. Keeps the
+  // historical/forecast split meaningful when replaying old data.
+  rebaseToNow?: boolean;
+}
+
+export function createFixtureProvider(
+  recording: WeatherRecording,
+  { rebaseToNow = true }: FixtureProviderOptions = {}
+): WeatherProvider {
+  const fetchRange = async ({ start, end }: WeatherRange): Promise<WeatherData[]> => {
+    const now = Date.now();
+    const offset = rebaseToNow
+      ? Math.floor(now / HOUR_MS) * HOUR_MS - Math.floor(recording.recordedAt / HOUR_MS) * HOUR_MS
+      : 0;
+
+    return recording.data
+      .map((d) => ({ ...d, timestamp: d.timestamp + offset }))
+      .filter((d) => d.timestamp >= start && d.timestamp <= end)
+      .map((d) => ({ ...d, isForecast: d.timestamp > now }));
+  };
+
+  const timestamps = recording.data.map((d) => d.timestamp);
+
+  return {
+    id: 'fixture',
+    capabilities: {
+      marine: recording.data.some((d) => d.waveHeight !== undefined),
+      maxPastDays: timestamps.length
+        ? Math.floor((recording.recordedAt - Math.min(...timestamps)) / DAY_MS)
+        : 0,
+      maxForecastDays: timestamps.length
+        ? Math.max(0, Math.floor((Math.max(...timestamps) - recording.recordedAt) / DAY_MS))
+        : 0,
+      maxArchiveDays: 0,
+      offline: true,
+      ensembleModels: [],
+      maxPreviousForecastDays: 0
+    },
+    attribution: {
+      name: `Recorded data (${new Date(recording.recordedAt).toLocaleString('en-GB')})`,
+      ...(recording.attribution && {
+        url: recording.attribution.url,
+        license: recording.attribution.license
+      })
+    },
+    fetchRange
+  };
+}
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+// The bits of a recording we rely on; the rest of each entry is taken as recorded
+function isRecording(value: unknown): value is WeatherRecording {
+  return (
+    isObject(value) &&
+    typeof value.recordedAt === 'number' &&
+    Array.isArray(value.data) &&
+    value.data.every((d: unknown) => isObject(d) && typeof d.timestamp === 'number')
+  );
+}
+
+// Parse a recording from a JSON string (e.g. an uploaded file), validating the bits we rely on
+export function parseRecording(json: string): WeatherRecording {
+  const parsed: unknown = JSON.parse(json);
+  if (!isRecording(parsed)) {
+    throw new Error('Invalid weather recording - expected { recordedAt, lat, lon, data[] }');
+  }
+  return parsed;
+}
+
+// Capture a fetch so it can be replayed later with createFixtureProvider
+export function recordWeather(
+  provider: WeatherProvider,
+  lat: number,
+  lon: number,
+  data: WeatherData[]
+): WeatherRecording {
+  return {
+    recordedAt: Date.now(),
+    lat,
+    lon,
+    attribution: provider.attribution,
+    data
+  };
+}
@@ -0,0 +1,345 @@
+import type { WeatherData } from '../../components/WeatherPredictor/types';
+import type { EnsembleMember, EnsembleModel, WeatherProvider, WeatherRange } from './types';
+import { fetchWithProxy, getProxySettings } from '../proxy';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Open-Meteo forecast API allows up to 92 past days; we only ever ask for 2 forecast days
+const MAX_PAST_DAYS = 92;
+const MAX_FORECAST_DAYS = 2;
+
+// The ERA5 archive goes back decades but lags real time by about five days
+const MAX_ARCHIVE_DAYS = 365 * 5;
+const ARCHIVE_LAG_DAYS = 5;
+
+const ARCHIVE_VARIABLES =
+  'windspeed_10m,winddirection_10m,windgusts_10m,' +
+  'temperature_2m,precipitation,pressure_msl,cloudcover';
+// Previous-runs API: past hours as forecast 1-7 days earlier. Kept to the same reach as
+// the forecast API's past_days so a MOS training set never outruns the actuals.
+const MAX_PREVIOUS_FORECAST_DAYS = 92;
+const PREVIOUS_FORECAST_VARIABLES = [
+  'windspeed_10m',
+  'winddirection_10m',
+  'windgusts_10m',
+  'temperature_2m',
+  'pressure_msl'
+];
+
+// Deterministic models served by the forecast API's `models` parameter
+const ENSEMBLE_MODELS: EnsembleModel[] = [
+  { id: 'ecmwf_ifs025', label: 'ECMWF IFS' },
+  { id: 'gfs_seamless', label: 'GFS' },
+  { id: 'icon_seamless', label: 'ICON' },
+  { id: 'ukmo_seamless', label: 'UKMO' }
+];
+const ENSEMBLE_VARIABLES = ['windspeed_10m', 'winddirection_10m', 'windgusts_10m'];
+
+// Open-Meteo defaults to km/h; everything downstream works in m/s
+const WIND_SPEED_UNIT = 'windspeed_unit=ms';
+
+// 80m wind isn't in the reanalysis, so only the forecast asks for it
+const FORECAST_VARIABLES = ARCHIVE_VARIABLES + ',windspeed_80m,winddirection_80m';
+
+// Hourly block of an Open-Meteo response: `time` plus one array per requested variable,
+// with nulls where a value is missing
+type HourlySeries = (number | null)[];
+
+interface OpenMeteoHourly {
+  time?: string[];
+  [variable: string]: HourlySeries | string[] | undefined;
+}
+
+interface OpenMeteoResponse {
+  latitude?: number;
+  longitude?: number;
+  hourly?: OpenMeteoHourly;
+}
+
+const seriesOf = (hourly: OpenMeteoHourly | undefined, variable: string) =>
+  variable === 'time' ? undefined : (hourly?.[variable] as HourlySeries | undefined);
+
+// Join the weather and marine hourly arrays on timestamp
+function combineHourly(
+  weatherData: OpenMeteoResponse,
+  marineData: OpenMeteoResponse | null,
+  now: number
+): WeatherData[] {
+  const marineTime = marineData?.hourly?.time ?? [];
+  const weather = (variable: string, i: number): number | undefined =>
+    seriesOf(weatherData.hourly, variable)?.[i] ?? undefined;
+
+  return (weatherData.hourly?.time ?? []).map((timestamp, i): WeatherData => {
+    const entryTime = new Date(timestamp).getTime();
+
+    // Find matching marine data index
+    const marineIndex = marineTime.findIndex((t) => new Date(t).getTime() === entryTime);
+    // Inland grid cells come back as nulls rather than an error
+    const marine = (variable: string): number | undefined =>
+      marineIndex >= 0
+        ? seriesOf(marineData?.hourly, variable)?.[marineIndex] ?? undefined
+        : undefined;
+
+    return {
+      timestamp: entryTime,
+      windSpeed: weather('windspeed_10m', i) ?? NaN,
+      windGusts: weather('windgusts_10m', i) ?? NaN,
+      windDirection: weather('winddirection_10m', i) ?? NaN,
+      temperature: weather('temperature_2m', i),
+      precipitation: weather('precipitation', i),
+      pressure: weather('pressure_msl', i),
+      cloudCover: weather('cloudcover', i),
+      windSpeed80m: weather('windspeed_80m', i),
+      windDirection80m: weather('winddirection_80m', i),
+      waveHeight: marine('wave_height'),
+      wavePeriod: marine('wave_period'),
+      swellDirection: marine('wave_direction'),
+      isForecast: entryTime > now
+    };
+  });
+}
+
+const toDateString = (timestamp: number) => new Date(timestamp).toISOString().split('T')[0];
+
+export function createOpenMeteoProvider(): WeatherProvider {
+  const fetchRange = async ({ lat, lon, start, end }: WeatherRange): Promise<WeatherData[]> => {
+    const now = Date.now();
+    const pastDays = Math.min(MAX_PAST_DAYS, Math.max(0, Math.ceil((now - start) / DAY_MS)));
+    const forecastDays = Math.min(
+      MAX_FORECAST_DAYS,
+      Math.max(1, Math.ceil((end - now) / DAY_MS))
+    );
+
+    // Fetch wind data
+    const weatherUrl =
+      `https://api.open-meteo.com/v1/forecast?` +
+      `latitude=${lat}&longitude=${lon}&` +
+      `hourly=${FORECAST_VARIABLES}&` +
+      `${WIND_SPEED_UNIT}&` +
+      `past_days=${pastDays}&` +
+      `forecast_days=${forecastDays}&` +
+      `timezone=auto`;
+
+    // Fetch marine data
+    const marineUrl =
+      `https://marine-api.open-meteo.com/v1/marine?` +
+      `latitude=${lat}&longitude=${lon}&` +
+      `hourly=wave_height,wave_period,wave_direction&` +
+      `past_days=${pastDays}&` +
+      `forecast_days=${forecastDays}&` +
+      `timezone=auto`;
+
+    console.log('Fetching from URLs:', { weatherUrl, marineUrl, proxy: getProxySettings().mode });
+
+    // Fetch both APIs in parallel. Lakes and reservoirs have no marine data, so only the
+    // weather request is required to succeed.
+    const [weatherResponse, marineResponse] = await Promise.all([
+      fetchWithProxy(weatherUrl),
+      fetchWithProxy(marineUrl).catch(() => null)
+    ]);
+
+    if (!weatherResponse.ok) {
+      console.error('API Error Response:', await weatherResponse.text());
+      throw new Error(`Weather API error: ${weatherResponse.status}`);
+    }
+
+    const weatherData: OpenMeteoResponse = await weatherResponse.json();
+    let marineData: OpenMeteoResponse | null = null;
+    if (marineResponse?.ok) {
+      marineData = await marineResponse.json();
+    } else if (marineResponse) {
+      console.warn('No marine data for this location:', await marineResponse.text());
+    }
+
+    // Validate data structure
+    if (!weatherData.hourly?.time?.length) {
+      console.error('Invalid data structure received:', { weatherData });
+      throw new Error('Invalid weather data format - missing hourly data');
+    }
+
+    console.log('Received weather data:', {
+      requestedLocation: { lat, lon },
+      receivedLocation: {
+        weather: { lat: weatherData.latitude, lon: weatherData.longitude },
+        marine: marineData && { lat: marineData.latitude, lon: marineData.longitude }
+      },
+      dataPoints: {
+        weather: weatherData.hourly.time.length,
+        marine: marineData?.hourly?.time?.length ?? 0
+      }
+    });
+
+    return combineHourly(weatherData, marineData, now);
+  };
+
+  const fetchArchive = async ({ lat, lon, start, end }: WeatherRange): Promise<WeatherData[]> => {
+    const now = Date.now();
+    const startDate = toDateString(start);
+    const endDate = toDateString(Math.min(end, now - ARCHIVE_LAG_DAYS * DAY_MS));
+
+    const archiveUrl =
+      `https://archive-api.open-meteo.com/v1/archive?` +
+      `latitude=${lat}&longitude=${lon}&` +
+      `hourly=${ARCHIVE_VARIABLES}&` +
+      `${WIND_SPEED_UNIT}&` +
+      `start_date=${startDate}&end_date=${endDate}&` +
+      `timezone=auto`;
+
+    const marineUrl =
+      `https://marine-api.open-meteo.com/v1/marine?` +
+      `latitude=${lat}&longitude=${lon}&` +
+      `hourly=wave_height,wave_period,wave_direction&` +
+      `start_date=${startDate}&end_date=${endDate}&` +
+      `timezone=auto`;
+
+    console.log('Fetching archive:', { archiveUrl, marineUrl });
+
+    const [archiveResponse, marineResponse] = await Promise.all([
+      fetchWithProxy(archiveUrl),
+      // Marine history is patchier than the reanalysis; train without waves rather than fail
+      fetchWithProxy(marineUrl).catch(() => null)
+    ]);
+
+    if (!archiveResponse.ok) {
+      console.error('Archive API Error Response:', await archiveResponse.text());
+      throw new Error(`Archive API error: ${archiveResponse.status}`);
+    }
+
+    const archiveData: OpenMeteoResponse = await archiveResponse.json();
+    const marineData: OpenMeteoResponse | null = marineResponse?.ok
+      ? await marineResponse.json()
+      : null;
+
+    if (!archiveData.hourly?.time?.length) {
+      throw new Error('Invalid archive data format - missing hourly data');
+    }
+
+    return combineHourly(archiveData, marineData, now);
+  };
+
+  const fetchEnsemble = async (
+    { lat, lon, start, end }: WeatherRange,
+    models: EnsembleModel[]
+  ): Promise<EnsembleMember[]> => {
+    const now = Date.now();
+    const forecastDays = Math.min(
+      MAX_FORECAST_DAYS,
+      Math.max(1, Math.ceil((end - now) / DAY_MS))
+    );
+
+    const ensembleUrl =
+      `https://api.open-meteo.com/v1/forecast?` +
+      `latitude=${lat}&longitude=${lon}&` +
+      `hourly=${ENSEMBLE_VARIABLES.join(',')}&` +
+      `${WIND_SPEED_UNIT}&` +
+      `models=${models.map((m) => m.id).join(',')}&` +
+      `forecast_days=${forecastDays}&` +
+      `timezone=auto`;
+
+    const response = await fetchWithProxy(ensembleUrl);
+    if (!response.ok) {
+      console.error('Ensemble API Error Response:', await response.text());
+      throw new Error(`Ensemble API error: ${response.status}`);
+    }
+
+    const ensembleData: OpenMeteoResponse = await response.json();
+    const time = ensembleData.hourly?.time ?? [];
+
+    // Multi-model responses suffix each variable with the model id
+    return models
+      .map((model) => {
+        const series = (variable: string) =>
+          seriesOf(ensembleData.hourly, `${variable}_${model.id}`);
+        const speed = series('windspeed_10m');
+        const direction = series('winddirection_10m');
+        const gusts = series('windgusts_10m');
+
+        const data = time
+          .map((timestamp, i) => ({
+            timestamp: new Date(timestamp).getTime(),
+            windSpeed: speed?.[i] ?? NaN,
+            windGusts: gusts?.[i] ?? NaN,
+            windDirection: direction?.[i] ?? NaN,
+            isForecast: true
+          }))
+          .filter(
+            (d) =>
+              d.timestamp >= start &&
+              d.timestamp <= end &&
+              !isNaN(d.windSpeed) &&
+              !isNaN(d.windDirection)
+          );
+
+        return { model, data };
+      })
+      .filter((member) => member.data.length > 0);
+  };
+
+  const fetchPreviousForecasts = async (
+    { lat, lon, start, end }: WeatherRange,
+    leadDays: number
+  ): Promise<WeatherData[]> => {
+    const now = Date.now();
+    const variable = (name: string) => `${name}_previous_day${leadDays}`;
+
+    const previousUrl =
+      `https://previous-runs-api.open-meteo.com/v1/forecast?` +
+      `latitude=${lat}&longitude=${lon}&` +
+      `hourly=${PREVIOUS_FORECAST_VARIABLES.map(variable).join(',')}&` +
+      `${WIND_SPEED_UNIT}&` +
+      `start_date=${toDateString(start)}&end_date=${toDateString(Math.min(end, now))}&` +
+      `timezone=auto`;
+
+    const response = await fetchWithProxy(previousUrl);
+    if (!response.ok) {
+      console.error('Previous runs API Error Response:', await response.text());
+      throw new Error(`Previous runs API error: ${response.status}`);
+    }
+
+    const previousData: OpenMeteoResponse = await response.json();
+    const hourly = previousData.hourly;
+    const time = hourly?.time ?? [];
+    const value = (name: string, i: number) => seriesOf(hourly, variable(name))?.[i];
+
+    return time
+      .map((timestamp, i) => ({
+        timestamp: new Date(timestamp).getTime(),
+        windSpeed: value('windspeed_10m', i) ?? NaN,
+        windGusts: value('windgusts_10m', i) ?? NaN,
+        windDirection: value('winddirection_10m', i) ?? NaN,
+        temperature: value('temperature_2m', i) ?? undefined,
+        pressure: value('pressure_msl', i) ?? undefined,
+        isForecast: false
+      }))
+      .filter(
+        (d) =>
+          d.timestamp >= start &&
+          d.timestamp <= Math.min(end, now) &&
+          !isNaN(d.windSpeed) &&
+          !isNaN(d.windDirection)
+      );
+  };
+
+  return {
+    id: 'open-meteo',
+    capabilities: {
+      marine: true,
+      maxPastDays: MAX_PAST_DAYS,
+      maxForecastDays: MAX_FORECAST_DAYS,
+      maxArchiveDays: MAX_ARCHIVE_DAYS,
+      offline: false,
+      ensembleModels: ENSEMBLE_MODELS,
+      maxPreviousForecastDays: MAX_PREVIOUS_FORECAST_DAYS
+    },
+    attribution: {
+      name: 'Open-Meteo',
+      url: 'https://open-meteo.com/',
+      license: 'CC BY 4.0'
+    },
+    fetchRange,
+    fetchArchive,
+    fetchEnsemble,
+    fetchPreviousForecasts
+  };
+}
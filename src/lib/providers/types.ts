@@ -0,0 +1,64 @@
+import type { WeatherData } from '../../components/WeatherPredictor/types';
+
+export interface WeatherRange {
+  lat: number;
+  lon: number;
+  // Inclusive range of hourly timestamps (ms). Providers may return extra hours around it.
+  start: number;
+  end: number;
+}
+
+export interface ProviderCapabilities {
+  // Whether wave height/period/direction are available
+  marine: boolean;
+  // How far back and forward the provider can serve hourly data
+  maxPastDays: number;
+  maxForecastDays: number;
+  // How far back fetchArchive can reach (0 when there is no archive)
+  maxArchiveDays: number;
+  // True when the provider never touches the network
+  offline: boolean;
+  // NWP models fetchEnsemble can return side by side (empty when unsupported)
+  ensembleModels: EnsembleModel[];
+  // How many days back fetchPreviousForecasts can reach (0 when unsupported)
+  maxPreviousForecastDays: number;
+}
+
+export interface EnsembleModel {
+  id: string;
+  label: string;
+}
+
+// One NWP model's forecast for the same point
+export interface EnsembleMember {
+  model: EnsembleModel;
+  data: WeatherData[];
+}
+
+export interface ProviderAttribution {
+  name: string;
+  url?: string;
+  license?: string;
+}
+
+export interface WeatherProvider {
+  id: string;
+  capabilities: ProviderCapabilities;
+  attribution: ProviderAttribution;
+  fetchRange: (range: WeatherRange) => Promise<WeatherData[]>;
+  // Long-range history of observed/analysed hours, fetched in chunks by the caller
+  fetchArchive?: (range: WeatherRange) => Promise<WeatherData[]>;
+  fetchEnsemble?: (range: WeatherRange, models: EnsembleModel[]) => Promise<EnsembleMember[]>;
+  // Wind forecasts for past hours as they were issued `leadDays` days beforehand, to pair
+  // with what actually happened when learning the forecast's local bias
+  fetchPreviousForecasts?: (range: WeatherRange, leadDays: number) => Promise<WeatherData[]>;
+}
+
+// Shape of a recorded fetch, as produced by recordWeather and consumed by the fixture provider
+export interface WeatherRecording {
+  recordedAt: number;
+  lat: number;
+  lon: number;
+  attribution?: ProviderAttribution;
+  data: WeatherData[];
+}
@@ -0,0 +1,91 @@
+export type ProxyMode = 'direct' | 'custom' | 'dev';
+
+export interface ProxySettings {
+  mode: ProxyMode;
+  // Prefix the encoded target URL is appended to, or a template containing {url}
+  customUrl: string;
+}
+
+const STORAGE_KEY = 'proxy-settings';
+
+export const DEFAULT_PROXY_SETTINGS: ProxySettings = {
+  // Open-Meteo sends CORS headers, so production can go direct; the dev server proxies
+  mode: import.meta.env.DEV ? 'dev' : 'direct',
+  customUrl: ''
+};
+
+let currentSettings: ProxySettings = loadProxySettings();
+
+export function loadProxySettings(): ProxySettings {
+  // Workers have no localStorage; they are handed the settings instead
+  if (typeof localStorage === 'undefined') return DEFAULT_PROXY_SETTINGS;
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return { ...DEFAULT_PROXY_SETTINGS, ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.warn('Could not read proxy settings:', error);
+  }
+  return DEFAULT_PROXY_SETTINGS;
+}
+
+export function getProxySettings(): ProxySettings {
+  return currentSettings;
+}
+
+// Use these settings for this context without persisting them
+export function applyProxySettings(settings: ProxySettings) {
+  currentSettings = settings;
+}
+
+// Applies for this session even when it can't be stored (private mode, storage full)
+export function saveProxySettings(settings: ProxySettings) {
+  applyProxySettings(settings);
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+  } catch (error) {
+    console.warn('Could not save proxy settings:', error);
+  }
+}
+
+export function buildProxiedUrl(target: string, settings: ProxySettings): string {
+  switch (settings.mode) {
+    case 'dev': {
+      // Matches the server.proxy entries in vite.config.ts
+      const url = new URL(target);
+      return `/proxy/${url.host}${url.pathname}${url.search}`;
+    }
+    case 'custom': {
+      const encoded = encodeURIComponent(target);
+      return settings.customUrl.includes('{url}')
+        ? settings.customUrl.replace('{url}', encoded)
+        : settings.customUrl + encoded;
+    }
+    default:
+      return target;
+  }
+}
+
+/**
+ * Fetch through the configured proxy, retrying the upstream URL directly if the
+ * proxy is unreachable or answers with an error.
+ */
+export async function fetchWithProxy(
+  target: string,
+  settings: ProxySettings = currentSettings
+): Promise<Response> {
+  if (settings.mode === 'direct' || (settings.mode === 'custom' && !settings.customUrl)) {
+    return fetch(target);
+  }
+
+  const proxied = buildProxiedUrl(target, settings);
+  try {
+    const response = await fetch(proxied);
+    if (response.ok) return response;
+    console.warn(`Proxy responded ${response.status}, retrying direct:`, target);
+  } catch (error) {
+    console.warn('Proxy request failed, retrying direct:', error);
+  }
+  return fetch(target);
+}
@@ -0,0 +1,40 @@
+// Sun position from the low-precision formulae of the Astronomical Almanac, good to about
+// 0.01° between 1950 and 2050. Plenty for a model input; no refraction correction.
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+const toDegrees = (radians: number) => (radians * 180) / Math.PI;
+
+// 2000-01-01 12:00 UTC
+const J2000_MS = Date.UTC(2000, 0, 1, 12);
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Geometric elevation of the sun's centre above the horizon, in degrees (negative at night). */
+export function sunElevation(lat: number, lon: number, timestamp: number): number {
+  const n = (timestamp - J2000_MS) / DAY_MS;
+
+  // Ecliptic longitude from the mean longitude and mean anomaly
+  const meanLongitude = 280.46 + 0.9856474 * n;
+  const meanAnomaly = toRadians(357.528 + 0.9856003 * n);
+  const eclipticLongitude = toRadians(
+    meanLongitude + 1.915 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly)
+  );
+  const obliquity = toRadians(23.439 - 0.0000004 * n);
+
+  const declination = Math.asin(Math.sin(obliquity) * Math.sin(eclipticLongitude));
+  const rightAscension = Math.atan2(
+    Math.cos(obliquity) * Math.sin(eclipticLongitude),
+    Math.cos(eclipticLongitude)
+  );
+
+  // Greenwich mean sidereal time in degrees, then the local hour angle
+  const siderealTime = 280.46061837 + 360.98564736629 * n;
+  const hourAngle = toRadians(siderealTime + lon) - rightAscension;
+
+  const latitude = toRadians(lat);
+  return toDegrees(
+    Math.asin(
+      Math.sin(latitude) * Math.sin(declination) +
+        Math.cos(latitude) * Math.cos(declination) * Math.cos(hourAngle)
+    )
+  );
+}
@@ -0,0 +1,150 @@
+import type { TideStation } from './tides';
+
+// Approximate harmonic constants for standard ports around Devon and Cornwall.
+// Good enough to tell a rider whether it's high or low water; not for navigation.
+export const TIDE_STATIONS: TideStation[] = [
+  {
+    id: 'newlyn',
+    name: 'Newlyn',
+    lat: 50.103,
+    lon: -5.543,
+    z0: 3.05,
+    constituents: [
+      { name: 'M2', amplitude: 1.72, phase: 140 },
+      { name: 'S2', amplitude: 0.58, phase: 183 },
+      { name: 'N2', amplitude: 0.33, phase: 122 },
+      { name: 'K2', amplitude: 0.16, phase: 180 },
+      { name: 'K1', amplitude: 0.07, phase: 124 },
+      { name: 'O1', amplitude: 0.05, phase: 337 },
+      { name: 'P1', amplitude: 0.02, phase: 118 },
+      { name: 'M4', amplitude: 0.05, phase: 300 },
+      { name: 'MS4', amplitude: 0.04, phase: 350 }
+    ]
+  },
+  {
+    id: 'falmouth',
+    name: 'Falmouth',
+    lat: 50.15,
+    lon: -5.05,
+    z0: 3.0,
+    constituents: [
+      { name: 'M2', amplitude: 1.64, phase: 144 },
+      { name: 'S2', amplitude: 0.56, phase: 188 },
+      { name: 'N2', amplitude: 0.31, phase: 126 },
+      { name: 'K2', amplitude: 0.16, phase: 185 },
+      { name: 'K1', amplitude: 0.07, phase: 120 },
+      { name: 'O1', amplitude: 0.05, phase: 340 },
+      { name: 'P1', amplitude: 0.02, phase: 115 },
+      { name: 'M4', amplitude: 0.05, phase: 310 },
+      { name: 'MS4', amplitude: 0.04, phase: 0 }
+    ]
+  },
+  {
+    id: 'plymouth',
+    name: 'Plymouth (Devonport)',
+    lat: 50.368,
+    lon: -4.185,
+    z0: 3.22,
+    constituents: [
+      { name: 'M2', amplitude: 1.65, phase: 150 },
+      { name: 'S2', amplitude: 0.58, phase: 194 },
+      { name: 'N2', amplitude: 0.32, phase: 132 },
+      { name: 'K2', amplitude: 0.16, phase: 191 },
+      { name: 'K1', amplitude: 0.07, phase: 117 },
+      { name: 'O1', amplitude: 0.05, phase: 340 },
+      { name: 'P1', amplitude: 0.02, phase: 112 },
+      { name: 'M4', amplitude: 0.06, phase: 330 },
+      { name: 'MS4', amplitude: 0.04, phase: 20 }
+    ]
+  },
+  {
+    id: 'newquay',
+    name: 'Newquay',
+    lat: 50.417,
+    lon: -5.083,
+    z0: 3.7,
+    constituents: [
+      { name: 'M2', amplitude: 2.22, phase: 152 },
+      { name: 'S2', amplitude: 0.78, phase: 196 },
+      { name: 'N2', amplitude: 0.42, phase: 134 },
+      { name: 'K2', amplitude: 0.22, phase: 193 },
+      { name: 'K1', amplitude: 0.07, phase: 130 },
+      { name: 'O1', amplitude: 0.06, phase: 345 },
+      { name: 'P1', amplitude: 0.02, phase: 125 },
+      { name: 'M4', amplitude: 0.04, phase: 290 },
+      { name: 'MS4', amplitude: 0.03, phase: 340 }
+    ]
+  },
+  {
+    id: 'padstow',
+    name: 'Padstow',
+    lat: 50.542,
+    lon: -4.937,
+    z0: 3.9,
+    constituents: [
+      { name: 'M2', amplitude: 2.35, phase: 155 },
+      { name: 'S2', amplitude: 0.82, phase: 199 },
+      { name: 'N2', amplitude: 0.44, phase: 137 },
+      { name: 'K2', amplitude: 0.23, phase: 196 },
+      { name: 'K1', amplitude: 0.07, phase: 132 },
+      { name: 'O1', amplitude: 0.06, phase: 347 },
+      { name: 'P1', amplitude: 0.02, phase: 127 },
+      { name: 'M4', amplitude: 0.05, phase: 300 },
+      { name: 'MS4', amplitude: 0.03, phase: 350 }
+    ]
+  },
+  {
+    id: 'st-ives',
+    name: 'St Ives',
+    lat: 50.214,
+    lon: -5.475,
+    z0: 3.6,
+    constituents: [
+      { name: 'M2', amplitude: 2.1, phase: 148 },
+      { name: 'S2', amplitude: 0.74, phase: 192 },
+      { name: 'N2', amplitude: 0.4, phase: 130 },
+      { name: 'K2', amplitude: 0.21, phase: 189 },
+      { name: 'K1', amplitude: 0.07, phase: 128 },
+      { name: 'O1', amplitude: 0.06, phase: 343 },
+      { name: 'P1', amplitude: 0.02, phase: 122 },
+      { name: 'M4', amplitude: 0.04, phase: 295 },
+      { name: 'MS4', amplitude: 0.03, phase: 345 }
+    ]
+  },
+  {
+    id: 'salcombe',
+    name: 'Salcombe',
+    lat: 50.233,
+    lon: -3.767,
+    z0: 3.05,
+    constituents: [
+      { name: 'M2', amplitude: 1.6, phase: 155 },
+      { name: 'S2', amplitude: 0.57, phase: 199 },
+      { name: 'N2', amplitude: 0.31, phase: 137 },
+      { name: 'K2', amplitude: 0.16, phase: 196 },
+      { name: 'K1', amplitude: 0.07, phase: 115 },
+      { name: 'O1', amplitude: 0.05, phase: 338 },
+      { name: 'P1', amplitude: 0.02, phase: 110 },
+      { name: 'M4', amplitude: 0.07, phase: 340 },
+      { name: 'MS4', amplitude: 0.05, phase: 30 }
+    ]
+  },
+  {
+    id: 'appledore',
+    name: 'Appledore',
+    lat: 51.05,
+    lon: -4.193,
+    z0: 3.1,
+    constituents: [
+      { name: 'M2', amplitude: 2.4, phase: 165 },
+      { name: 'S2', amplitude: 0.86, phase: 210 },
+      { name: 'N2', amplitude: 0.45, phase: 147 },
+      { name: 'K2', amplitude: 0.24, phase: 207 },
+      { name: 'K1', amplitude: 0.07, phase: 135 },
+      { name: 'O1', amplitude: 0.06, phase: 350 },
+      { name: 'P1', amplitude: 0.02, phase: 130 },
+      { name: 'M4', amplitude: 0.12, phase: 20 },
+      { name: 'MS4', amplitude: 0.08, phase: 70 }
+    ]
+  }
+];
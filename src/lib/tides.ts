@@ -0,0 +1,189 @@
+// Harmonic tide prediction. Heights are computed offline from per-station constants:
+// h(t) = Z0 + sum of f * H * cos(V(t) + u - g) over the constituents.
+
+export type ConstituentName = 'M2' | 'S2' | 'N2' | 'K2' | 'K1' | 'O1' | 'P1' | 'Q1' | 'M4' | 'MS4';
+
+export interface HarmonicConstituent {
+  name: ConstituentName;
+  // Amplitude in metres
+  amplitude: number;
+  // Greenwich phase lag in degrees (UT)
+  phase: number;
+}
+
+export interface TideStation {
+  id: string;
+  name: string;
+  lat: number;
+  lon: number;
+  // Mean sea level above chart datum, metres
+  z0: number;
+  constituents: HarmonicConstituent[];
+}
+
+export interface TideExtreme {
+  timestamp: number;
+  height: number;
+  type: 'high' | 'low';
+}
+
+interface AstronomicalArguments {
+  // Mean lunar time, moon, sun, lunar perigee and lunar node longitudes (degrees)
+  tau: number;
+  s: number;
+  h: number;
+  p: number;
+  N: number;
+}
+
+// Doodson multipliers for (tau, s, h, p) plus a phase offset in degrees
+const DOODSON: { [name in ConstituentName]: [number, number, number, number, number] } = {
+  M2: [2, 0, 0, 0, 0],
+  S2: [2, 2, -2, 0, 0],
+  N2: [2, -1, 0, 1, 0],
+  K2: [2, 2, 0, 0, 0],
+  K1: [1, 1, 0, 0, 90],
+  O1: [1, -1, 0, 0, -90],
+  P1: [1, 1, -2, 0, -90],
+  Q1: [1, -2, 0, 1, -90],
+  M4: [4, 0, 0, 0, 0],
+  MS4: [4, 2, -2, 0, 0]
+};
+
+const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+
+function astronomicalArguments(timestamp: number): AstronomicalArguments {
+  // Julian centuries since J2000.0
+  const T = (timestamp / 86400000 + 2440587.5 - 2451545.0) / 36525;
+  const s = 218.3164477 + 481267.88123421 * T;
+  const h = 280.46646 + 36000.76983 * T;
+  const p = 83.3532465 + 4069.0137287 * T;
+  const N = 125.04452 - 1934.136261 * T;
+
+  const utHours = (timestamp / 3600000) % 24;
+  const tau = 15 * utHours + 180 + h - s;
+
+  return { tau, s, h, p, N };
+}
+
+// Nodal amplitude factor f and phase correction u (degrees) for the 18.6-year lunar cycle
+function nodalCorrection(name: ConstituentName, N: number): { f: number; u: number } {
+  const n = toRadians(N);
+  const m2 = {
+    f: 1.0004 - 0.0373 * Math.cos(n) + 0.0002 * Math.cos(2 * n),
+    u: -2.14 * Math.sin(n)
+  };
+
+  switch (name) {
+    case 'M2':
+    case 'N2':
+      return m2;
+    case 'K2':
+      return {
+        f: 1.0241 + 0.2863 * Math.cos(n) + 0.0083 * Math.cos(2 * n) - 0.0015 * Math.cos(3 * n),
+        u: -17.74 * Math.sin(n) + 0.68 * Math.sin(2 * n) - 0.04 * Math.sin(3 * n)
+      };
+    case 'K1':
+      return {
+        f: 1.006 + 0.115 * Math.cos(n) - 0.0088 * Math.cos(2 * n) + 0.0006 * Math.cos(3 * n),
+        u: -8.86 * Math.sin(n) + 0.68 * Math.sin(2 * n) - 0.07 * Math.sin(3 * n)
+      };
+    case 'O1':
+    case 'Q1':
+      return {
+        f: 1.0089 + 0.1871 * Math.cos(n) - 0.0147 * Math.cos(2 * n) + 0.0014 * Math.cos(3 * n),
+        u: 10.8 * Math.sin(n) - 1.34 * Math.sin(2 * n) + 0.19 * Math.sin(3 * n)
+      };
+    case 'M4':
+      return { f: m2.f * m2.f, u: 2 * m2.u };
+    case 'MS4':
+      return m2;
+    default:
+      // S2, P1: purely solar, no nodal modulation
+      return { f: 1, u: 0 };
+  }
+}
+
+export function predictTideHeight(station: TideStation, timestamp: number): number {
+  const { tau, s, h, p, N } = astronomicalArguments(timestamp);
+
+  return station.constituents.reduce((height, { name, amplitude, phase }) => {
+    const [dTau, dS, dH, dP, offset] = DOODSON[name];
+    const V = dTau * tau + dS * s + dH * h + dP * p + offset;
+    const { f, u } = nodalCorrection(name, N);
+    return height + f * amplitude * Math.cos(toRadians(V + u - phase));
+  }, station.z0);
+}
+
+const SAMPLE_MS = 6 * 60 * 1000;
+
+/**
+ * High and low waters between start and end. Heights are sampled every six minutes and
+ * turning points refined with a parabola through the neighbouring samples.
+ */
+export function findTideExtremes(station: TideStation, start: number, end: number): TideExtreme[] {
+  const extremes: TideExtreme[] = [];
+  let prev = predictTideHeight(station, start - SAMPLE_MS);
+  let current = predictTideHeight(station, start);
+
+  for (let t = start; t <= end; t += SAMPLE_MS) {
+    const next = predictTideHeight(station, t + SAMPLE_MS);
+    const isHigh = current > prev && current >= next;
+    const isLow = current < prev && current <= next;
+
+    if (isHigh || isLow) {
+      const denominator = prev - 2 * current + next;
+      const shift = denominator !== 0 ? (0.5 * (prev - next)) / denominator : 0;
+      const timestamp = t + shift * SAMPLE_MS;
+      extremes.push({
+        timestamp,
+        height: predictTideHeight(station, timestamp),
+        type: isHigh ? 'high' : 'low'
+      });
+    }
+
+    prev = current;
+    current = next;
+  }
+
+  return extremes;
+}
+
+// Stations further than this from a spot are not representative of its tide
+const MAX_STATION_DISTANCE_KM = 40;
+
+function distanceKm(lat1: number, lon1: number, lat2: number, lon2: number): number {
+  const dLat = toRadians(lat2 - lat1);
+  const dLon = toRadians(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+}
+
+export function findNearestTideStation(
+  stations: TideStation[],
+  lat: number,
+  lon: number
+): TideStation | null {
+  let nearest: TideStation | null = null;
+  let nearestDistance = MAX_STATION_DISTANCE_KM;
+
+  for (const station of stations) {
+    const distance = distanceKm(lat, lon, station.lat, station.lon);
+    if (distance <= nearestDistance) {
+      nearest = station;
+      nearestDistance = distance;
+    }
+  }
+
+  return nearest;
+}
+
+export function addTideHeights<T extends { timestamp: number }>(
+  data: T[],
+  station: TideStation | null
+): (T & { tideHeight?: number })[] {
+  if (!station) return data;
+  return data.map((d) => ({ ...d, tideHeight: predictTideHeight(station, d.timestamp) }));
+}
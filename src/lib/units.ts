@@ -0,0 +1,131 @@
+// Display units. Data is stored in m/s and metres throughout; conversion happens at the
+// edge, just before values are charted or printed.
+
+export type WindUnit = 'kn' | 'ms' | 'kmh' | 'mph' | 'bft';
+export type HeightUnit = 'm' | 'ft';
+
+export interface UnitPreferences {
+  wind: WindUnit;
+  height: HeightUnit;
+}
+
+const STORAGE_KEY = 'unit-preferences';
+
+// Riders think in knots
+export const DEFAULT_UNITS: UnitPreferences = { wind: 'kn', height: 'm' };
+
+export const WIND_UNITS: { value: WindUnit; label: string }[] = [
+  { value: 'kn', label: 'Knots' },
+  { value: 'ms', label: 'm/s' },
+  { value: 'kmh', label: 'km/h' },
+  { value: 'mph', label: 'mph' },
+  { value: 'bft', label: 'Beaufort' }
+];
+
+export const HEIGHT_UNITS: { value: HeightUnit; label: string }[] = [
+  { value: 'm', label: 'Metres' },
+  { value: 'ft', label: 'Feet' }
+];
+
+const WIND_FACTORS: { [unit in Exclude<WindUnit, 'bft'>]: number } = {
+  ms: 1,
+  kn: 1.943844,
+  kmh: 3.6,
+  mph: 2.236936
+};
+
+const FEET_PER_METRE = 3.28084;
+
+// Upper bound (m/s) of each Beaufort force 0-11; anything above is force 12
+const BEAUFORT_LIMITS = [0.5, 1.5, 3.3, 5.5, 7.9, 10.7, 13.8, 17.1, 20.7, 24.4, 28.4, 32.6];
+
+const BEAUFORT_DESCRIPTIONS = [
+  'Calm',
+  'Light air',
+  'Light breeze',
+  'Gentle breeze',
+  'Moderate breeze',
+  'Fresh breeze',
+  'Strong breeze',
+  'Near gale',
+  'Gale',
+  'Strong gale',
+  'Storm',
+  'Violent storm',
+  'Hurricane force'
+];
+
+export function loadUnitPreferences(): UnitPreferences {
+  try {
+    const stored = localStorage.getItem(STORAGE_KEY);
+    if (stored) {
+      return { ...DEFAULT_UNITS, ...JSON.parse(stored) };
+    }
+  } catch (error) {
+    console.warn('Could not read unit preferences:', error);
+  }
+  return DEFAULT_UNITS;
+}
+
+export function saveUnitPreferences(units: UnitPreferences) {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(units));
+}
+
+/**
+ * Convert a wind speed from m/s. Beaufort is returned on the continuous empirical
+ * scale, B = (v / 0.836)^(2/3), so it can be charted; use beaufortForce for the integer.
+ */
+export function convertWind(ms: number, unit: WindUnit): number {
+  if (unit === 'bft') {
+    return Math.pow(Math.max(0, ms) / 0.836, 2 / 3);
+  }
+  return ms * WIND_FACTORS[unit];
+}
+
+/** Inverse of convertWind, for speeds the user types in their own unit. */
+export function windToMs(value: number, unit: WindUnit): number {
+  if (unit === 'bft') {
+    return 0.836 * Math.pow(Math.max(0, value), 3 / 2);
+  }
+  return value / WIND_FACTORS[unit];
+}
+
+export function beaufortForce(ms: number): number {
+  const force = BEAUFORT_LIMITS.findIndex((limit) => ms < limit);
+  return force === -1 ? 12 : force;
+}
+
+export function beaufortDescription(ms: number): string {
+  return BEAUFORT_DESCRIPTIONS[beaufortForce(ms)];
+}
+
+// For values already on the continuous scale, e.g. chart tooltips
+const describeBeaufortScale = (value: number) => {
+  const force = Math.min(12, Math.max(0, Math.round(value)));
+  return `F${force} ${BEAUFORT_DESCRIPTIONS[force]}`;
+};
+
+export function windUnitLabel(unit: WindUnit): string {
+  return unit === 'bft' ? 'Bft' : unit === 'ms' ? 'm/s' : unit === 'kmh' ? 'km/h' : unit;
+}
+
+export function convertHeight(metres: number, unit: HeightUnit): number {
+  return unit === 'ft' ? metres * FEET_PER_METRE : metres;
+}
+
+export function heightUnitLabel(unit: HeightUnit): string {
+  return unit;
+}
+
+// Printable wind speed without its unit, for tables that carry it in the header.
+// Beaufort shows the force number rather than a decimal.
+export function formatWind(ms: number, unit: WindUnit): string {
+  if (unit === 'bft') return `F${beaufortForce(ms)}`;
+  return convertWind(ms, unit).toFixed(unit === 'ms' ? 1 : 0);
+}
+
+// Printable form of a value that has already been through convertWind
+export function formatConvertedWind(value: number, unit: WindUnit): string {
+  if (unit === 'bft') return describeBeaufortScale(value);
+  return `${value.toFixed(1)} ${windUnitLabel(unit)}`;
+}
@@ -1,113 +1,41 @@
 import type { WeatherData } from '../components/WeatherPredictor/types';
+import type { WeatherProvider } from './providers/types';
+import { createOpenMeteoProvider } from './providers/openMeteo';
+import { cacheKey, getCachedRange } from './weatherCache';
+
+export const defaultWeatherProvider: WeatherProvider = createOpenMeteoProvider();
 
 export async function fetchHistoricalWeather(
   lat: number,
   lon: number,
-  hours: number = 120
+  hours: number = 120,
+  provider: WeatherProvider = defaultWeatherProvider
 ): Promise<WeatherData[]> {
-  console.log('Fetching weather data for:', { lat, lon, hours });
+  console.log('Fetching weather data for:', { lat, lon, hours, provider: provider.id });
 
   try {
     // Calculate dates within allowed range
     const now = new Date();
     const startDate = new Date(now.getTime() - hours * 60 * 60 * 1000);
+    const endDate = new Date(now.getTime() + 2 * 24 * 60 * 60 * 1000); // 2 days ahead max
 
-    // Format dates as YYYY-MM-DD
-    const startDateStr = startDate.toISOString().split('T')[0];
-    const endDateStr = new Date(now.getTime() + 2 * 24 * 60 * 60 * 1000) // 2 days ahead max
-      .toISOString()
-      .split('T')[0];
-
-    console.log('Requesting data for date range:', { startDateStr, endDateStr });
-
-    // Use a CORS proxy to avoid CORS issues
-    const proxyUrl = 'https://corsproxy.io/?';
-
-    // Fetch wind data
-    const weatherUrl =
-      proxyUrl +
-      encodeURIComponent(
-        `https://api.open-meteo.com/v1/forecast?` +
-          `latitude=${lat}&longitude=${lon}&` +
-          `hourly=windspeed_10m,winddirection_10m,windgusts_10m&` +
-          `past_days=${Math.ceil(hours / 24)}&` +
-          `forecast_days=2&` +
-          `timezone=auto`
-      );
-
-    // Fetch marine data
-    const marineUrl =
-      proxyUrl +
-      encodeURIComponent(
-        `https://marine-api.open-meteo.com/v1/marine?` +
-          `latitude=${lat}&longitude=${lon}&` +
-          `hourly=wave_height,wave_period,wave_direction&` +
-          `past_days=${Math.ceil(hours / 24)}&` +
-          `forecast_days=2&` +
-          `timezone=auto`
-      );
-
-    console.log('Fetching from URLs:', { weatherUrl, marineUrl });
-
-    // Fetch both APIs in parallel
-    const [weatherResponse, marineResponse] = await Promise.all([
-      fetch(weatherUrl),
-      fetch(marineUrl)
-    ]);
-
-    if (!weatherResponse.ok || !marineResponse.ok) {
-      const weatherText = await weatherResponse.text();
-      const marineText = await marineResponse.text();
-      console.error('API Error Response:', { weather: weatherText, marine: marineText });
-      throw new Error(`Weather API error: ${weatherResponse.status}/${marineResponse.status}`);
-    }
+    console.log('Requesting data for date range:', {
+      startDateStr: startDate.toISOString().split('T')[0],
+      endDateStr: endDate.toISOString().split('T')[0]
+    });
 
-    const [weatherData, marineData] = await Promise.all([
-      weatherResponse.json(),
-      marineResponse.json()
-    ]);
+    const start = startDate.getTime();
+    const end = endDate.getTime();
 
-    // Validate data structure
-    if (!weatherData.hourly?.time?.length || !marineData.hourly?.time?.length) {
-      console.error('Invalid data structure received:', { weatherData, marineData });
-      throw new Error('Invalid weather data format - missing hourly data');
-    }
+    // Offline providers are already local; only cache network sources
+    const combinedData = provider.capabilities.offline
+      ? await provider.fetchRange({ lat, lon, start, end })
+      : await getCachedRange(cacheKey(provider.id, lat, lon), start, end, (from) =>
+          provider.fetchRange({ lat, lon, start: from, end })
+        );
 
-    console.log('Received weather data:', {
-      requestedLocation: { lat, lon },
-      receivedLocation: {
-        weather: { lat: weatherData.latitude, lon: weatherData.longitude },
-        marine: { lat: marineData.latitude, lon: marineData.longitude }
-      },
-      timeRange: { start: startDateStr, end: endDateStr },
-      dataPoints: {
-        weather: weatherData.hourly.time.length,
-        marine: marineData.hourly.time.length
-      }
-    });
-
-    const combinedData = weatherData.hourly.time.map((timestamp: string, i: number) => {
-      const now = new Date().getTime();
-      const entryTime = new Date(timestamp).getTime();
-
-      // Find matching marine data index
-      const marineIndex = marineData.hourly.time.findIndex(
-        (t: string) => new Date(t).getTime() === entryTime
-      );
-
-      const entry = {
-        timestamp: entryTime,
-        windSpeed: weatherData.hourly.windspeed_10m[i],
-        windGusts: weatherData.hourly.windgusts_10m[i],
-        windDirection: weatherData.hourly.winddirection_10m[i],
-        waveHeight: marineIndex >= 0 ? marineData.hourly.wave_height[marineIndex] : undefined,
-        wavePeriod: marineIndex >= 0 ? marineData.hourly.wave_period[marineIndex] : undefined,
-        swellDirection:
-          marineIndex >= 0 ? marineData.hourly.wave_direction[marineIndex] : undefined,
-        isForecast: entryTime > now
-      };
-
-      // Validate each entry
+    // Validate each entry
+    combinedData.forEach((entry) => {
       if (
         Object.values(entry).some(
           (v) =>
@@ -117,27 +45,12 @@ export async function fetchHistoricalWeather(
             isNaN(v as number)
         )
       ) {
-        console.warn('Invalid entry found:', { timestamp, entry });
+        console.warn('Invalid entry found:', { timestamp: entry.timestamp, entry });
       }
-
-      return entry;
     });
 
     // Filter out any invalid entries
-    const validData = combinedData.filter(
-      (d) =>
-        !isNaN(d.timestamp) &&
-        !isNaN(d.windSpeed) &&
-        !isNaN(d.windDirection) &&
-        d.windDirection >= 0 &&
-        d.windDirection <= 360 &&
-        (d.waveHeight === undefined || !isNaN(d.waveHeight)) &&
-        (d.wavePeriod === undefined || !isNaN(d.wavePeriod)) &&
-        (d.swellDirection === undefined ||
-          (!isNaN(d.swellDirection) &&
-            d.swellDirection >= 0 &&
-            d.swellDirection <= 360))
-    );
+    const validData = combinedData.filter(isValidEntry);
 
     const stats = {
       total: validData.length,
@@ -163,6 +76,128 @@ export async function fetchHistoricalWeather(
   }
 }
 
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Recent window fetched alongside a backfill; long enough to cover the archive's lag
+const BACKFILL_RECENT_HOURS = 7 * 24;
+const ARCHIVE_CHUNK_DAYS = 31;
+
+/**
+ * Fetch `historyDays` of hourly history by pulling the provider's archive in date-range
+ * chunks and stitching it onto the recent series. Where both cover an hour the recent
+ * series wins. Falls back to the recent series alone when the provider has no archive
+ * or the requested history fits inside it.
+ */
+export async function fetchWeatherHistory(
+  lat: number,
+  lon: number,
+  historyDays: number,
+  provider: WeatherProvider = defaultWeatherProvider,
+  onProgress?: (chunksDone: number, totalChunks: number) => void
+): Promise<WeatherData[]> {
+  const historyHours = historyDays * 24;
+  if (historyHours <= 120 || !provider.fetchArchive || provider.capabilities.maxArchiveDays === 0) {
+    return fetchHistoricalWeather(lat, lon, Math.max(120, historyHours), provider);
+  }
+
+  const recent = await fetchHistoricalWeather(lat, lon, BACKFILL_RECENT_HOURS, provider);
+  const fetchArchive = provider.fetchArchive;
+
+  const archiveEnd = Math.min(...recent.map((d) => d.timestamp));
+  const archiveStart =
+    Date.now() - Math.min(historyDays, provider.capabilities.maxArchiveDays) * DAY_MS;
+
+  const chunks: { start: number; end: number }[] = [];
+  for (let start = archiveStart; start < archiveEnd; start += ARCHIVE_CHUNK_DAYS * DAY_MS) {
+    chunks.push({ start, end: Math.min(start + ARCHIVE_CHUNK_DAYS * DAY_MS, archiveEnd) - HOUR_MS });
+  }
+
+  console.log('Backfilling archive:', {
+    historyDays,
+    chunks: chunks.length,
+    from: format(archiveStart, 'yyyy-MM-dd'),
+    to: format(archiveEnd, 'yyyy-MM-dd')
+  });
+
+  const archive: WeatherData[] = [];
+  for (let i = 0; i < chunks.length; i++) {
+    onProgress?.(i, chunks.length);
+    const { start, end } = chunks[i];
+    // Archive hours are final, so they stay in the cache indefinitely. The provider clips
+    // the last chunk at its archive lag; those hours are remembered as empty rather than
+    // refetched on every run, and the recent series covers them anyway.
+    const chunk = await getCachedRange(
+      cacheKey(`${provider.id}-archive`, lat, lon),
+      start,
+      end,
+      (from) => fetchArchive({ lat, lon, start: from, end }),
+      { final: true }
+    );
+    archive.push(...chunk.filter(isValidEntry));
+  }
+  onProgress?.(chunks.length, chunks.length);
+
+  // De-duplicate on timestamp; the recent series overrides the archive
+  const byTimestamp = new Map<number, WeatherData>();
+  archive.forEach((d) => byTimestamp.set(d.timestamp, d));
+  recent.forEach((d) => byTimestamp.set(d.timestamp, d));
+  const stitched = Array.from(byTimestamp.values()).sort((a, b) => a.timestamp - b.timestamp);
+
+  console.log('Stitched history:', {
+    archive: archive.length,
+    recent: recent.length,
+    total: stitched.length
+  });
+
+  return stitched;
+}
+
+/**
+ * Past hours as the provider forecast them `leadDays` days beforehand, covering the last
+ * `historyDays` days. These hours never change, so they are cached like the archive.
+ */
+export async function fetchPreviousForecasts(
+  lat: number,
+  lon: number,
+  historyDays: number,
+  leadDays: number,
+  provider: WeatherProvider = defaultWeatherProvider
+): Promise<WeatherData[]> {
+  const fetchPrevious = provider.fetchPreviousForecasts;
+  if (!fetchPrevious || provider.capabilities.maxPreviousForecastDays === 0) {
+    throw new Error(`${provider.attribution.name} has no record of past forecasts`);
+  }
+
+  const end = Date.now();
+  const days = Math.min(historyDays, provider.capabilities.maxPreviousForecastDays);
+  const start = end - days * DAY_MS;
+  const data = await getCachedRange(
+    cacheKey(`${provider.id}-previous-day${leadDays}`, lat, lon),
+    start,
+    end,
+    (from) => fetchPrevious({ lat, lon, start: from, end }, leadDays)
+  );
+
+  return data.filter(isValidEntry);
+}
+
+function isValidEntry(d: WeatherData): boolean {
+  return (
+    !isNaN(d.timestamp) &&
+    !isNaN(d.windSpeed) &&
+    !isNaN(d.windDirection) &&
+    d.windDirection >= 0 &&
+    d.windDirection <= 360 &&
+    (d.waveHeight === undefined || !isNaN(d.waveHeight)) &&
+    (d.wavePeriod === undefined || !isNaN(d.wavePeriod)) &&
+    (d.swellDirection === undefined ||
+      (!isNaN(d.swellDirection) && d.swellDirection >= 0 && d.swellDirection <= 360)) &&
+    (d.windDirection80m === undefined ||
+      (d.windDirection80m >= 0 && d.windDirection80m <= 360))
+  );
+}
+
 // Helper function to format dates
 function format(timestamp: number, pattern: string): string {
   const date = new Date(timestamp);
@@ -0,0 +1,234 @@
+import type { WeatherData } from '../components/WeatherPredictor/types';
+
+const DB_NAME = 'wingfoil-weather';
+// Version 2: wind speeds are stored in m/s rather than km/h
+const DB_VERSION = 2;
+const STORE = 'series';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Forecast hours are refreshed after this long; observed (past) hours never expire
+export const FORECAST_TTL_MS = HOUR_MS;
+
+// ~1km, well inside the resolution of the forecast grid
+const COORD_PRECISION = 2;
+
+interface CachedHour {
+  data: WeatherData;
+  fetchedAt: number;
+}
+
+interface CachedSeries {
+  key: string;
+  hours: { [timestamp: number]: CachedHour };
+  // Hours of a final series the provider was asked for but had nothing for
+  emptyHours?: number[];
+  updatedAt: number;
+}
+
+interface CachedRangeOptions {
+  // Past hours that will never change, e.g. the archive. Hours the provider leaves out
+  // are then remembered as empty instead of being asked for again on every call.
+  final?: boolean;
+}
+
+export interface CacheStats {
+  hits: number;
+  partialHits: number;
+  misses: number;
+  hoursFromCache: number;
+  hoursFetched: number;
+}
+
+const stats: CacheStats = {
+  hits: 0,
+  partialHits: 0,
+  misses: 0,
+  hoursFromCache: 0,
+  hoursFetched: 0
+};
+
+const listeners = new Set<(stats: CacheStats) => void>();
+
+export function getCacheStats(): CacheStats {
+  return { ...stats };
+}
+
+export function subscribeCacheStats(listener: (stats: CacheStats) => void): () => void {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+}
+
+// Also used to fold in counters from the analysis worker, which has its own copy of this module
+export function recordCacheStats(update: Partial<CacheStats>) {
+  (Object.keys(update) as (keyof CacheStats)[]).forEach((field) => {
+    stats[field] += update[field] ?? 0;
+  });
+  const snapshot = getCacheStats();
+  listeners.forEach((listener) => listener(snapshot));
+}
+
+export function cacheKey(providerId: string, lat: number, lon: number): string {
+  return `${providerId}:${lat.toFixed(COORD_PRECISION)},${lon.toFixed(COORD_PRECISION)}`;
+}
+
+const floorToHour = (timestamp: number) => Math.floor(timestamp / HOUR_MS) * HOUR_MS;
+
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === 'undefined') {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        // Older series are in the wrong units; start afresh rather than convert
+        if (db.objectStoreNames.contains(STORE)) {
+          db.deleteObjectStore(STORE);
+        }
+        db.createObjectStore(STORE, { keyPath: 'key' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        // Private browsing or blocked storage: run without a cache
+        console.warn('Weather cache unavailable:', request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function readSeries(key: string): Promise<CachedSeries | undefined> {
+  const db = await openDb();
+  if (!db) return undefined;
+  const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+  return promisify(store.get(key) as IDBRequest<CachedSeries | undefined>);
+}
+
+async function writeSeries(series: CachedSeries): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+  const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+  await promisify(store.put(series));
+}
+
+export async function clearWeatherCache(): Promise<void> {
+  const db = await openDb();
+  if (!db) return;
+  const store = db.transaction(STORE, 'readwrite').objectStore(STORE);
+  await promisify(store.clear());
+}
+
+export async function countCachedSpots(): Promise<number> {
+  const db = await openDb();
+  if (!db) return 0;
+  const store = db.transaction(STORE, 'readonly').objectStore(STORE);
+  return promisify(store.count());
+}
+
+const isFresh = (hour: CachedHour, now: number) =>
+  // An hour observed in the past is final; a forecast hour is only good for the TTL
+  !hour.data.isForecast || now - hour.fetchedAt < FORECAST_TTL_MS;
+
+/**
+ * Serve a range from the cache, fetching only the hours that are missing or stale.
+ * The fetcher is called with the first hour that needs refreshing; everything before
+ * it is already cached and final.
+ */
+export async function getCachedRange(
+  key: string,
+  start: number,
+  end: number,
+  fetcher: (from: number) => Promise<WeatherData[]>,
+  { final = false }: CachedRangeOptions = {}
+): Promise<WeatherData[]> {
+  const now = Date.now();
+  let series: CachedSeries | undefined;
+  try {
+    series = await readSeries(key);
+  } catch (error) {
+    console.warn('Weather cache read failed:', error);
+  }
+
+  const hours = series?.hours ?? {};
+  const emptyHours = new Set(final ? series?.emptyHours ?? [] : []);
+  const firstHour = floorToHour(start);
+  const latestCached = Math.max(-Infinity, ...Object.keys(hours).map(Number));
+  // Providers may stop short of `end` (e.g. whole forecast days); hours past the last
+  // one we got are only worth asking for again once the forecast itself has gone stale
+  const seriesFresh =
+    !!series && now - series.updatedAt < FORECAST_TTL_MS && latestCached >= firstHour;
+  const lastHour = seriesFresh ? Math.min(floorToHour(end), latestCached) : floorToHour(end);
+
+  let firstMissing: number | null = null;
+  for (let t = firstHour; t <= lastHour; t += HOUR_MS) {
+    const cached = hours[t];
+    if (!cached && emptyHours.has(t)) continue;
+    if (!cached || !isFresh(cached, now)) {
+      firstMissing = t;
+      break;
+    }
+  }
+
+  const inRange = (source: { [timestamp: number]: CachedHour }) =>
+    Object.values(source)
+      .map((h) => ({ ...h.data, isForecast: h.data.timestamp > now }))
+      .filter((d) => d.timestamp >= firstHour && d.timestamp <= end)
+      .sort((a, b) => a.timestamp - b.timestamp);
+
+  if (firstMissing === null) {
+    const data = inRange(hours);
+    recordCacheStats({ hits: 1, hoursFromCache: data.length });
+    return data;
+  }
+
+  const fetched = await fetcher(firstMissing);
+  const merged: { [timestamp: number]: CachedHour } = { ...hours };
+  // Hours are stored on the hour, so a provider whose timestamps are off it (e.g. a
+  // recording rebased to the current time) still lines up with later lookups
+  fetched.forEach((d) => {
+    const hour = floorToHour(d.timestamp);
+    merged[hour] = { data: { ...d, timestamp: hour }, fetchedAt: now };
+  });
+  if (final) {
+    for (let t = firstMissing; t <= floorToHour(end); t += HOUR_MS) {
+      if (!merged[t]) emptyHours.add(t);
+    }
+  }
+
+  const cachedCount = Object.keys(hours)
+    .map(Number)
+    .filter((t) => t >= firstHour && t < firstMissing!).length;
+  recordCacheStats({
+    ...(cachedCount > 0 ? { partialHits: 1 } : { misses: 1 }),
+    hoursFromCache: cachedCount,
+    hoursFetched: fetched.length
+  });
+
+  try {
+    await writeSeries({
+      key,
+      hours: merged,
+      ...(final && { emptyHours: Array.from(emptyHours) }),
+      updatedAt: now
+    });
+  } catch (error) {
+    console.warn('Weather cache write failed:', error);
+  }
+
+  return inRange(merged);
+}
@@ -2,6 +2,14 @@ import { defineConfig } from 'vite';
 import react from '@vitejs/plugin-react';
 import topLevelAwait from 'vite-plugin-top-level-await';
 
+// Upstream APIs reachable through the dev server at /proxy/<host>/... (see src/lib/proxy.ts)
+const DEV_PROXY_HOSTS = [
+  'api.open-meteo.com',
+  'marine-api.open-meteo.com',
+  'archive-api.open-meteo.com',
+  'previous-runs-api.open-meteo.com'
+];
+
 export default defineConfig({
   plugins: [
     react(),
@@ -9,5 +17,17 @@ export default defineConfig({
       promiseExportName: '__tla',
       promiseImportName: i => `__tla_${i}`
     })
-  ]
+  ],
+  server: {
+    proxy: Object.fromEntries(
+      DEV_PROXY_HOSTS.map((host) => [
+        `/proxy/${host}`,
+        {
+          target: `https://${host}`,
+          changeOrigin: true,
+          rewrite: (path: string) => path.replace(`/proxy/${host}`, '')
+        }
+      ])
+    )
+  }
 });